@@ -0,0 +1,140 @@
+import { Schema } from 'mongoose';
+import { isWithinPath } from './utils';
+
+/**
+ * Schema-level aliases shared by the toJSON and paginate plugins: `'name:fullName;profile.city:city'`
+ * or `{ name: 'fullName', 'profile.city': 'city' }`. Responses use the aliases, and paginate accepts
+ * them in `filter`, `sortBy` and `fields`.
+ */
+export type AliasSpec = string | Record<string, string>;
+
+export interface CompiledAlias {
+  // [schema path, alias] pairs, deepest paths first so renaming a parent does not hide its children
+  entries: [string, string][];
+  // Schema path of each alias
+  paths: Map<string, string>;
+}
+
+// Aliases registered per schema; both plugins may declare them, and the entries are merged
+const schemaAliases = new WeakMap<Schema<any>, CompiledAlias>();
+
+const parseAliasSpec = (spec: AliasSpec): [string, string][] => {
+  if (typeof spec === 'string') {
+    return spec
+      .split(';')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const parts = entry.split(':').map((part) => part.trim());
+        if (parts.length !== 2 || !parts[0] || !parts[1]) {
+          throw new Error(`alias: invalid entry "${entry}". Expected "path:alias".`);
+        }
+        return [parts[0], parts[1]];
+      });
+  }
+  if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+    throw new Error('alias: expected a "path:alias;..." string or a { path: alias } object.');
+  }
+  return Object.entries(spec).map(([path, alias]) => {
+    if (typeof alias !== 'string' || !alias.trim()) {
+      throw new Error(`alias: the alias of "${path}" must be a non-empty string.`);
+    }
+    return [path.trim(), alias.trim()];
+  });
+};
+
+const compileAlias = (entries: [string, string][], schemaPaths: string[]): CompiledAlias => {
+  const paths = new Map<string, string>();
+
+  entries.forEach(([path, alias]) => {
+    if (!schemaPaths.some((schemaPath) => isWithinPath(schemaPath, path))) {
+      throw new Error(`alias: "${path}" is not a path of the schema.`);
+    }
+    if (alias === 'id' || alias === '_id' || alias.startsWith('$') || /[\s:;]/.test(alias)) {
+      throw new Error(`alias: "${alias}" cannot be used as an alias.`);
+    }
+
+    const other = entries.find(([otherPath, otherAlias]) => otherPath === path && otherAlias !== alias);
+    if (other) throw new Error(`alias: "${path}" has two aliases, "${alias}" and "${other[1]}".`);
+    if (paths.has(alias) && paths.get(alias) !== path) {
+      throw new Error(`alias: "${paths.get(alias)}" and "${path}" collide on the alias "${alias}".`);
+    }
+
+    // An alias must not overwrite a schema path or another alias, nor contain one
+    const shadowedPath = schemaPaths.find((schemaPath) => isWithinPath(schemaPath, alias));
+    if (shadowedPath) {
+      throw new Error(`alias: "${alias}" (for "${path}") collides with the schema path "${shadowedPath}".`);
+    }
+    const nestedAlias = entries.find(
+      ([, otherAlias]) => otherAlias !== alias && (isWithinPath(otherAlias, alias) || isWithinPath(alias, otherAlias)),
+    );
+    if (nestedAlias) {
+      throw new Error(`alias: "${alias}" (for "${path}") collides with the alias "${nestedAlias[1]}".`);
+    }
+
+    paths.set(alias, path);
+  });
+
+  const unique = Array.from(paths.entries()).map(([alias, path]): [string, string] => [path, alias]);
+  unique.sort(([a], [b]) => b.split('.').length - a.split('.').length);
+  return { entries: unique, paths };
+};
+
+/**
+ * Validate and register aliases for a schema. Called by the plugins at registration, so an invalid or
+ * colliding alias fails when the schema is defined.
+ * @param schema The schema the aliases belong to.
+ * @param spec The aliases.
+ * @param schemaPaths Full dotted paths of the schema.
+ */
+export const registerSchemaAlias = (schema: Schema<any>, spec: AliasSpec, schemaPaths: string[]): void => {
+  const registered = schemaAliases.get(schema)?.entries || [];
+  schemaAliases.set(schema, compileAlias([...registered, ...parseAliasSpec(spec)], schemaPaths));
+};
+
+export const getSchemaAlias = (schema: Schema<any>): CompiledAlias | undefined => schemaAliases.get(schema);
+
+/**
+ * The schema path an alias (or a path below it, e.g. `city.code`) stands for; other names are returned as is.
+ */
+export const toSchemaPath = (alias: CompiledAlias, name: string): string => {
+  const exact = alias.paths.get(name);
+  if (exact) return exact;
+  const parent = Array.from(alias.paths.keys()).find((key) => name.startsWith(`${key}.`));
+  return parent ? `${alias.paths.get(parent)}${name.slice(parent.length)}` : name;
+};
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+
+/**
+ * Rewrite aliased keys of a filter (including inside `$and`, `$or` and `$nor`) to schema paths.
+ */
+export const translateFilter = (alias: CompiledAlias, filter: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries(filter).map(([key, value]) => {
+      if (LOGICAL_OPERATORS.includes(key) && Array.isArray(value)) {
+        return [key, value.map((condition) => translateFilter(alias, condition))];
+      }
+      return [key.startsWith('$') ? key : toSchemaPath(alias, key), value];
+    }),
+  );
+
+/**
+ * Rewrite aliased keys of a `sortBy` string (`fullName:asc,score`) to schema paths.
+ */
+export const translateSortBy = (alias: CompiledAlias, sortBy: string): string =>
+  sortBy
+    .split(',')
+    .map((sortOption) => {
+      const [key, ...order] = sortOption.trim().split(':');
+      return [toSchemaPath(alias, key.trim()), ...order].join(':');
+    })
+    .join(',');
+
+/**
+ * Rewrite aliased entries of a `fields` list (`fullName`, `-city`) to schema paths.
+ */
+export const translateFields = (alias: CompiledAlias, fields: string[]): string[] =>
+  fields.map((field) =>
+    field.startsWith('-') ? `-${toSchemaPath(alias, field.slice(1))}` : toSchemaPath(alias, field),
+  );
@@ -0,0 +1,302 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import mongoose, { Document, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+import { PaginateModel, PaginateOptions, QueryResult, paginate } from './paginate';
+import { getTenantScope } from './tenantScope';
+import { getEncryptedPaths, getPrivatePaths } from './toJSON';
+import { isPlainObject, isWithinPath } from './utils';
+
+const { EJSON } = mongoose.mongo.BSON;
+
+// Stored in place of values of `private: true` paths
+export const REDACTED = '[REDACTED]';
+
+export type AuditOperation = 'create' | 'update' | 'delete';
+
+export interface AuditChange {
+  path: string;
+  before?: any;
+  after?: any;
+  // Values of private paths are not stored and cannot be reverted
+  redacted?: boolean;
+}
+
+export interface AuditEntry {
+  refId: any;
+  version: number;
+  operation: AuditOperation;
+  // The Mongoose method that made the change, e.g. "save" or "updateMany"
+  method: string;
+  changes: AuditChange[];
+  actor?: any;
+  // Tenant of the document, on models using tenantScope
+  tenant?: any;
+  createdAt: Date;
+}
+
+export interface AuditTrailOptions {
+  // Returns the actor of the current operation (default: the actor set with runWithActor)
+  getActor?: () => any;
+  // Name of the history model (default: `<modelName>_history`)
+  historyModelName?: string;
+  // Paths never recorded (default: createdAt, updatedAt, __v)
+  ignorePaths?: string[];
+}
+
+export interface AuditTrailMethods {
+  revertTo(version: number): Promise<this>;
+}
+
+export interface AuditTrailStatics {
+  history(id: any, options?: PaginateOptions): Promise<QueryResult<AuditEntry & Document>>;
+}
+
+const actorStorage = new AsyncLocalStorage<any>();
+
+/**
+ * Runs `fn` with `actor` recorded on every audit entry written inside it, e.g. from an Express middleware:
+ * `app.use((req, res, next) => runWithActor(req.user.id, next))`.
+ */
+export const runWithActor = <R>(actor: any, fn: () => R): R => actorStorage.run(actor, fn);
+
+export const getCurrentActor = (): any => actorStorage.getStore();
+
+const historySchema = new Schema<AuditEntry & Document>(
+  {
+    refId: { type: Schema.Types.Mixed, required: true },
+    version: { type: Number, required: true },
+    operation: { type: String, enum: ['create', 'update', 'delete'], required: true },
+    method: { type: String, required: true },
+    changes: [
+      {
+        _id: false,
+        path: { type: String, required: true },
+        before: Schema.Types.Mixed,
+        after: Schema.Types.Mixed,
+        redacted: Boolean,
+      },
+    ],
+    actor: Schema.Types.Mixed,
+    tenant: Schema.Types.Mixed,
+  },
+  { timestamps: { createdAt: true, updatedAt: false }, versionKey: false, minimize: false },
+);
+
+historySchema.index({ refId: 1, version: -1 }, { unique: true });
+historySchema.plugin(paginate);
+
+// Last version allocated per document, incremented atomically so concurrent writes get distinct versions
+const counterSchema = new Schema({ _id: Schema.Types.Mixed, version: Number }, { versionKey: false });
+
+// Queries that change documents, with whether they touch a single document
+const UPDATE_OPS: [MongooseDefaultQueryMiddleware, boolean][] = [
+  ['updateOne', true],
+  ['updateMany', false],
+  ['findOneAndUpdate', true],
+];
+const DELETE_OPS: [MongooseDefaultQueryMiddleware, boolean][] = [
+  ['deleteOne', true],
+  ['deleteMany', false],
+  ['findOneAndDelete', true],
+];
+
+// Flatten a document into leaf paths; arrays and BSON values are compared as a whole
+const flatten = (value: Record<string, any>, prefix = '', leaves: Record<string, any> = {}): Record<string, any> => {
+  Object.keys(value).forEach((key) => {
+    const path = `${prefix}${key}`;
+    if (isPlainObject(value[key]) && Object.keys(value[key]).length > 0) flatten(value[key], `${path}.`, leaves);
+    else leaves[path] = value[key];
+  });
+  return leaves;
+};
+
+const isEqualValue = (a: unknown, b: unknown): boolean =>
+  EJSON.stringify({ v: a ?? null }, { relaxed: false }) === EJSON.stringify({ v: b ?? null }, { relaxed: false });
+
+const toSnapshot = (doc: Document): Record<string, any> =>
+  doc.toObject({ depopulate: true, virtuals: false, getters: false, transform: false });
+
+/**
+ * Mongoose Schema Plugin recording field-level diffs of every save, update and delete
+ * into a companion `<collection>_history` collection.
+ * @param schema The Mongoose Schema to modify.
+ * @param options Plugin options.
+ */
+export const auditTrail = (schema: Schema<any>, options: AuditTrailOptions = {}): void => {
+  const ignorePaths = options.ignorePaths || ['createdAt', 'updatedAt', '__v'];
+  const beforeDocs = new WeakMap<Query<any, any>, Record<string, any>[]>();
+
+  const getHistoryModel = (model: Model<any>): PaginateModel<AuditEntry & Document> => {
+    const name = options.historyModelName || `${model.modelName}_history`;
+    const connection = model.db;
+    return (connection.models[name] ||
+      connection.model(name, historySchema, `${model.collection.collectionName}_history`)) as PaginateModel<
+      AuditEntry & Document
+    >;
+  };
+
+  const getCounterModel = (model: Model<any>): Model<{ _id: any; version: number }> => {
+    const History = getHistoryModel(model);
+    const name = `${History.modelName}_counter`;
+    const connection = model.db;
+    return (
+      connection.models[name] || connection.model(name, counterSchema, `${History.collection.collectionName}_counters`)
+    );
+  };
+
+  const nextVersion = async (model: Model<any>, refId: any): Promise<number> => {
+    const counter = await getCounterModel(model)
+      .findOneAndUpdate({ _id: refId }, { $inc: { version: 1 } }, { upsert: true, new: true })
+      .lean();
+    return counter!.version;
+  };
+
+  const diff = (before: Record<string, any>, after: Record<string, any>): AuditChange[] => {
+    // Encrypted values are redacted as well, rather than kept in the history in clear
+    const redactedPaths = [...getPrivatePaths(schema), ...getEncryptedPaths(schema)];
+    const beforeLeaves = flatten(before);
+    const afterLeaves = flatten(after);
+    const paths = Array.from(new Set([...Object.keys(beforeLeaves), ...Object.keys(afterLeaves)]));
+
+    return paths
+      .filter((path) => path !== '_id' && !ignorePaths.some((parent) => isWithinPath(path, parent)))
+      .filter((path) => !isEqualValue(beforeLeaves[path], afterLeaves[path]))
+      .map((path): AuditChange => {
+        if (redactedPaths.some((parent) => isWithinPath(path, parent))) {
+          return { path, before: REDACTED, after: REDACTED, redacted: true };
+        }
+        // Added and removed paths only carry the side that exists
+        const change: AuditChange = { path };
+        if (beforeLeaves[path] !== undefined) change.before = beforeLeaves[path];
+        if (afterLeaves[path] !== undefined) change.after = afterLeaves[path];
+        return change;
+      });
+  };
+
+  const record = async (
+    model: Model<any>,
+    refId: any,
+    operation: AuditOperation,
+    method: string,
+    before: Record<string, any>,
+    after: Record<string, any>,
+  ): Promise<void> => {
+    const changes = diff(before, after);
+    if (operation === 'update' && changes.length === 0) return;
+
+    const tenantPath = getTenantScope(schema)?.path;
+    await getHistoryModel(model).create({
+      refId,
+      version: await nextVersion(model, refId),
+      operation,
+      method,
+      changes,
+      actor: options.getActor ? options.getActor() : getCurrentActor(),
+      ...(tenantPath ? { tenant: after[tenantPath] ?? before[tenantPath] } : {}),
+    });
+  };
+
+  // Document middleware
+  schema.post('init', function (this: Document) {
+    this.$locals.auditSnapshot = toSnapshot(this);
+  });
+
+  schema.pre('save', function (this: Document) {
+    this.$locals.auditIsNew = this.isNew;
+  });
+
+  schema.post('save', async function (this: Document) {
+    const after = toSnapshot(this);
+    const isNew = Boolean(this.$locals.auditIsNew);
+    const before = isNew ? {} : (this.$locals.auditSnapshot as Record<string, any>) || {};
+    this.$locals.auditSnapshot = after;
+    await record(this.constructor as Model<any>, this._id, isNew ? 'create' : 'update', 'save', before, after);
+  });
+
+  // doc.deleteOne() deletes through the collection, so the query middleware below does not see it
+  schema.pre('deleteOne', { document: true, query: false }, function (this: Document) {
+    // The last saved or loaded state; a document built without loading it only has its own values
+    if (!this.$locals.auditSnapshot) this.$locals.auditSnapshot = toSnapshot(this);
+  });
+
+  schema.post('deleteOne', { document: true, query: false }, async function (this: Document) {
+    const before = this.$locals.auditSnapshot as Record<string, any>;
+    await record(this.constructor as Model<any>, this._id, 'delete', 'deleteOne', before, {});
+  });
+
+  // Query middleware: load the affected documents before the operation
+  [...UPDATE_OPS, ...DELETE_OPS].forEach(([op, isSingle]) => {
+    schema.pre(op, async function (this: Query<any, any>) {
+      const filter = this.getFilter();
+      // Keep the scope of the original query (softDelete's withDeleted/onlyDeleted)
+      const { withDeleted, onlyDeleted, sort } = this.getOptions() as Record<string, any>;
+      const scope = { withDeleted, onlyDeleted };
+      const docs = isSingle
+        ? [await this.model.findOne(filter).setOptions(scope).sort(sort).lean()].filter(Boolean)
+        : await this.model.find(filter).setOptions(scope).lean();
+      beforeDocs.set(this, docs as Record<string, any>[]);
+    });
+  });
+
+  UPDATE_OPS.forEach(([op]) => {
+    schema.post(op, async function (this: Query<any, any>, res: any) {
+      const before = beforeDocs.get(this) || [];
+      const ids = before.map((doc) => doc._id);
+      // updateOne/updateMany report an upsert in the result, findOneAndUpdate returns the document
+      const upsertedId = op === 'findOneAndUpdate' ? res?._id : res?.upsertedId;
+      if (upsertedId && !ids.some((id) => String(id) === String(upsertedId))) ids.push(upsertedId);
+
+      // withDeleted keeps documents the update soft-deleted visible (softDelete plugin)
+      const afterDocs: Record<string, any>[] = await this.model
+        .find({ _id: { $in: ids } })
+        .setOptions({ withDeleted: true })
+        .lean();
+
+      for (const after of afterDocs) {
+        const previous = before.find((doc) => String(doc._id) === String(after._id));
+        await record(this.model, after._id, previous ? 'update' : 'create', op, previous || {}, after);
+      }
+    });
+  });
+
+  DELETE_OPS.forEach(([op]) => {
+    schema.post(op, async function (this: Query<any, any>) {
+      for (const before of beforeDocs.get(this) || []) {
+        await record(this.model, before._id, 'delete', op, before, {});
+      }
+    });
+  });
+
+  schema.statics.history = async function (this: Model<any>, id: any, paginateOptions: PaginateOptions = {}) {
+    // The history collection is not tenant-scoped, so entries are limited to the current tenant here
+    const tenantScope = getTenantScope(schema);
+    const tenantFilter = tenantScope?.getFilter(this, 'history');
+    const filter = tenantFilter ? { refId: id, tenant: tenantFilter[tenantScope!.path] } : { refId: id };
+    return getHistoryModel(this).paginate(filter, { sortBy: 'version:desc', ...paginateOptions });
+  };
+
+  /**
+   * Restores the document to its state at `version` by undoing later changes, then saves it
+   * (which is recorded as a new version). Redacted private values are left as they are.
+   */
+  schema.methods.revertTo = async function (this: Document, version: number) {
+    const History = getHistoryModel(this.constructor as Model<any>);
+
+    if (!(await History.exists({ refId: this._id, version }))) {
+      throw new Error(`auditTrail: version ${version} not found for document "${this._id}".`);
+    }
+
+    const laterEntries = await History.find({ refId: this._id, version: { $gt: version } })
+      .sort({ version: -1 })
+      .lean();
+
+    laterEntries.forEach((entry) => {
+      entry.changes
+        .filter((change) => !change.redacted)
+        .forEach((change) => this.set(change.path, change.before));
+    });
+
+    return this.save();
+  };
+};
+
+export default auditTrail;
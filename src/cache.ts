@@ -0,0 +1,165 @@
+import { createHash } from 'crypto';
+import mongoose, { Document, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+import { PaginateError } from './errors';
+import { getScopeKey } from './utils';
+
+const { EJSON, ObjectId } = mongoose.mongo.BSON;
+
+/**
+ * Store for cached paginate results. Values are EJSON strings, so a Redis-like store can keep them as is:
+ * `{ get: (key) => redis.get(key), set: (key, value, ttl) => redis.set(key, value, ttl ? { EX: ttl } : {}) }`.
+ */
+export interface PaginateCacheAdapter {
+  get(key: string): Promise<string | null | undefined> | string | null | undefined;
+  // `ttl` in seconds; undefined keeps the entry until it is evicted
+  set(key: string, value: string, ttl?: number): Promise<unknown> | unknown;
+}
+
+export interface LRUCacheOptions {
+  // Maximum number of entries (default: 500)
+  max?: number;
+}
+
+/**
+ * In-memory LRU adapter for a single process.
+ */
+export const createLRUCache = (options: LRUCacheOptions = {}): PaginateCacheAdapter => {
+  const max = options.max ?? 500;
+  if (!Number.isInteger(max) || max < 1) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: invalid cache max "${options.max}". Must be a positive integer.`,
+    );
+  }
+
+  // Map iteration follows insertion order, so re-inserting on read keeps the least recently used first
+  const entries = new Map<string, { value: string; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttl) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : Infinity });
+      if (entries.size > max) entries.delete(entries.keys().next().value!);
+    },
+  };
+};
+
+// Writes that change documents of the model
+const WRITE_QUERY_OPS: MongooseDefaultQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+];
+
+// Discriminators share the cache of their base model; models of other connections do not
+const namespaceOf = (model: Model<any>): string =>
+  `paginate:${model.db.id}:${model.baseModelName || model.modelName}`;
+
+// Cache failures never fail a query: a read falls back to MongoDB, a write is skipped
+const safely = async <R>(fn: () => Promise<R> | R): Promise<R | undefined> => {
+  try {
+    return await fn();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Cache keys hold the model's generation, a token replaced on every write. Invalidating a model is then a
+ * single `set`, and entries of past generations are never read again and expire with their TTL.
+ */
+export const getCacheGeneration = async (cache: PaginateCacheAdapter, model: Model<any>): Promise<string> => {
+  const generation = await safely(() => cache.get(`${namespaceOf(model)}:generation`));
+  if (generation) return generation;
+  // A missing (or evicted) generation starts a new one, so entries cached before it cannot come back
+  return invalidateCache(cache, model);
+};
+
+export const invalidateCache = async (cache: PaginateCacheAdapter, model: Model<any>): Promise<string> => {
+  const generation = new ObjectId().toHexString();
+  await safely(() => cache.set(`${namespaceOf(model)}:generation`, generation));
+  return generation;
+};
+
+/**
+ * Key of a paginate call: a hash of the filter and options, serialized with their keys sorted so
+ * equivalent queries share an entry. Options holding a function (e.g. a toJSON `isSelf` closing over the
+ * current user) cannot be hashed, so they are not cached unless the caller names the entry with `cacheKey`.
+ * Models scoped by the async context (tenantScope) keep one entry per scope.
+ */
+export const buildCacheKey = (
+  model: Model<any>,
+  schema: Schema<any>,
+  generation: string,
+  query: unknown,
+  cacheKey?: string,
+): string | undefined => {
+  let hasFunction = false;
+  const sortKeys = (value: any): any => {
+    if (typeof value === 'function') hasFunction = true;
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, sortKeys(value[key])]),
+      );
+    }
+    return value;
+  };
+
+  // The plugin's schema: discriminators run on a copy the scope was not registered on
+  const scope = getScopeKey(schema);
+  // A discriminator adds its own filter, so its entries are kept apart from the base model's
+  const name = model.baseModelName ? `:${model.modelName}` : '';
+  const prefix = `${namespaceOf(model)}:${generation}${name}${scope === undefined ? '' : `:${EJSON.stringify(scope)}`}`;
+  if (cacheKey) return `${prefix}:${cacheKey}`;
+
+  const serialized = EJSON.stringify(sortKeys(query), { relaxed: false });
+  if (hasFunction) return undefined;
+  return `${prefix}:${createHash('sha1').update(serialized).digest('hex')}`;
+};
+
+export const readCache = async <R>(cache: PaginateCacheAdapter, key: string): Promise<R | undefined> => {
+  const cached = await safely(() => cache.get(key));
+  return cached ? (EJSON.parse(cached, { relaxed: false }) as R) : undefined;
+};
+
+export const writeCache = async (cache: PaginateCacheAdapter, key: string, value: unknown, ttl?: number) => {
+  await safely(() => cache.set(key, EJSON.stringify(value, { relaxed: false }), ttl));
+};
+
+/**
+ * Invalidate the model's cached pages after every save, update, replace, delete and insertMany.
+ */
+export const registerCacheInvalidation = (schema: Schema<any>, cache: PaginateCacheAdapter): void => {
+  schema.post('save', async function (this: Document) {
+    await invalidateCache(cache, this.constructor as Model<any>);
+  });
+
+  schema.post(WRITE_QUERY_OPS, async function (this: Query<any, any>) {
+    await invalidateCache(cache, this.model);
+  });
+
+  // Document deleteOne/updateOne (doc.deleteOne()) do not run query middleware
+  schema.post(['deleteOne', 'updateOne'], { document: true, query: false }, async function (this: Document) {
+    await invalidateCache(cache, this.constructor as Model<any>);
+  });
+
+  schema.post('insertMany', async function (this: Model<any>) {
+    await invalidateCache(cache, this);
+  });
+};
@@ -0,0 +1,108 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import mongoose from 'mongoose';
+import { PaginateError } from './errors';
+
+const { EJSON } = mongoose.mongo.BSON;
+
+// Generated when neither `cursorSecret` nor PAGINATE_CURSOR_SECRET is provided. Cursors signed with it
+// cannot be forged, but fail to verify after a restart and on other instances.
+let processSecret: string | undefined;
+
+// Decoded cursor content: the sort keys it was created for and the boundary document's values
+export interface CursorPayload {
+  keys: string[];
+  values: any[];
+}
+
+export type KeysetSort = [string, 1 | -1][];
+
+const resolveSecret = (secret?: string): string => {
+  const configured = secret || process.env.PAGINATE_CURSOR_SECRET;
+  if (configured) return configured;
+  if (!processSecret) {
+    processSecret = randomBytes(32).toString('base64url');
+    console.warn(
+      'paginateCursor: no cursorSecret or PAGINATE_CURSOR_SECRET is set; cursors are signed with a random ' +
+        'per-process secret and stop working after a restart or on another instance.',
+    );
+  }
+  return processSecret;
+};
+
+const sign = (body: string, secret?: string): string =>
+  createHmac('sha256', resolveSecret(secret)).update(body).digest('base64url');
+
+/**
+ * Encodes the boundary document's sort values into an opaque, signed cursor string.
+ * Values are serialized as canonical EJSON so Dates, ObjectIds and Decimals survive the round trip.
+ */
+export const encodeCursor = (payload: CursorPayload, secret?: string): string => {
+  const body = Buffer.from(EJSON.stringify(payload, { relaxed: false })).toString('base64url');
+  return `${body}.${sign(body, secret)}`;
+};
+
+/**
+ * Verifies and decodes a cursor created by encodeCursor.
+ * Throws when the cursor is malformed or its signature does not match.
+ */
+export const decodeCursor = (cursor: string, secret?: string): CursorPayload => {
+  const [body, signature, ...rest] = typeof cursor === 'string' ? cursor.split('.') : [];
+
+  if (!body || !signature || rest.length > 0) {
+    throw new PaginateError('INVALID_CURSOR', 'paginateCursor: invalid cursor format.');
+  }
+
+  const expected = Buffer.from(sign(body, secret));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    throw new PaginateError('INVALID_CURSOR', 'paginateCursor: invalid cursor signature.');
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = EJSON.parse(Buffer.from(body, 'base64url').toString('utf8'), { relaxed: true }) as CursorPayload;
+  } catch {
+    throw new PaginateError('INVALID_CURSOR', 'paginateCursor: invalid cursor payload.');
+  }
+
+  if (!payload || !Array.isArray(payload.keys) || !Array.isArray(payload.values)) {
+    throw new PaginateError('INVALID_CURSOR', 'paginateCursor: invalid cursor payload.');
+  }
+  if (payload.keys.length !== payload.values.length) {
+    throw new PaginateError('INVALID_CURSOR', 'paginateCursor: invalid cursor payload.');
+  }
+
+  return payload;
+};
+
+/**
+ * Builds the keyset condition selecting documents strictly after (or before) the boundary values
+ * for a multi-field sort, e.g. for `score:desc,_id:asc` and direction "after":
+ * { $or: [{ score: { $lt: s } }, { score: null }, { score: s, _id: { $gt: id } }] }
+ * MongoDB sorts null and missing values first and only compares values of one type, so the side
+ * where nulls sort gets its own `{ key: null }` branch, and a null boundary is followed by any value.
+ */
+export const buildKeysetFilter = (
+  sort: KeysetSort,
+  values: any[],
+  direction: 'after' | 'before',
+): Record<string, any> => {
+  const conditions = sort.flatMap(([key, order], index) => {
+    const equal: Record<string, any> = {};
+    for (let i = 0; i < index; i++) {
+      equal[sort[i][0]] = values[i] ?? null;
+    }
+    const value = values[index] ?? null;
+    const ascending = direction === 'after' ? order === 1 : order === -1;
+
+    let branches: Record<string, any>[];
+    if (ascending) branches = [{ [key]: value === null ? { $ne: null } : { $gt: value } }];
+    // Nothing sorts below null; `_id` is never null
+    else if (value === null) branches = [];
+    else branches = key === '_id' ? [{ [key]: { $lt: value } }] : [{ [key]: { $lt: value } }, { [key]: null }];
+
+    return branches.map((branch) => ({ ...equal, ...branch }));
+  });
+
+  return { $or: conditions };
+};
@@ -0,0 +1,554 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { Aggregate, Document, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+import { getEncryptedPaths } from './toJSON';
+import { escapeRegex, isPlainObject } from './utils';
+
+/**
+ * Source of the encryption keys. Keys are read synchronously, since documents are decrypted as they are
+ * loaded: fetch them from a KMS or secret store at startup.
+ */
+export interface EncryptionKeyProvider {
+  // Id of the key new values are encrypted with; ids cannot contain ":"
+  getCurrentKeyId(): string;
+  // The 32-byte AES key of an id, or undefined when the id is unknown
+  getKey(keyId: string): Buffer | undefined;
+  // Key of the blind indexes, needed by `encrypt: { blindIndex: true }` paths. It is not rotated with
+  // the encryption keys, since changing it means rebuilding every index.
+  getBlindIndexKey?(): Buffer;
+}
+
+export interface KeyProviderOptions {
+  // Keys by id, as 32-byte Buffers or base64 strings
+  keys: Record<string, Buffer | string>;
+  currentKeyId: string;
+  blindIndexKey?: Buffer | string;
+}
+
+export interface EncryptedFieldsOptions {
+  keyProvider: EncryptionKeyProvider;
+}
+
+export interface RotateKeysOptions {
+  // Documents read and rewritten per round trip (default: 100)
+  batchSize?: number;
+  // Limits the rotation to matching documents
+  filter?: Record<string, any>;
+}
+
+export interface RotateKeysResult {
+  // Documents re-encrypted with the current key
+  rotated: number;
+}
+
+export interface EncryptedFieldsStatics {
+  rotateKeys(options?: RotateKeysOptions): Promise<RotateKeysResult>;
+}
+
+// An encrypted path, with the path holding its blind index when it has one
+interface EncryptedPath {
+  path: string;
+  blindIndexPath?: string;
+}
+
+// Stored values: `enc:v1:<keyId>:<iv>:<auth tag>:<ciphertext>`, base64 parts
+const ENVELOPE_PREFIX = 'enc:v1:';
+const BLIND_INDEX_SUFFIX = '_bidx';
+
+const LOGICAL_OPERATORS = ['$and', '$or', '$nor'];
+
+// Operators a blind index can answer, by comparing hashes
+const EQUALITY_OPERATORS = ['$eq', '$ne', '$in', '$nin', '$exists'];
+
+// Queries whose filter may name encrypted paths
+const FILTERED_QUERY_OPS: MongooseDefaultQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'count',
+  'distinct',
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+];
+
+const UPDATE_QUERY_OPS: MongooseDefaultQueryMiddleware[] = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+];
+
+// Queries returning documents, decrypted here when they are lean (hydrated documents are decrypted on init)
+const LEAN_RESULT_OPS: MongooseDefaultQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+];
+
+// Update operators that may write an encrypted path
+const ENCRYPTED_SETTERS = ['$set', '$setOnInsert'];
+
+const toKey = (key: Buffer | string, name: string): Buffer => {
+  const buffer = Buffer.isBuffer(key) ? key : Buffer.from(key, 'base64');
+  if (buffer.length !== 32) {
+    throw new Error(`encryptedFields: ${name} must be 32 bytes, got ${buffer.length}.`);
+  }
+  return buffer;
+};
+
+/**
+ * Key provider over a fixed set of keys, e.g. loaded from environment variables at startup.
+ * To rotate, add the new key, make it current and run `Model.rotateKeys()`; the old key can be
+ * dropped once no value uses it.
+ */
+export const createKeyProvider = (options: KeyProviderOptions): EncryptionKeyProvider => {
+  const keys = new Map<string, Buffer>();
+  Object.entries(options.keys).forEach(([keyId, key]) => {
+    if (!keyId || keyId.includes(':')) throw new Error(`encryptedFields: invalid key id "${keyId}".`);
+    keys.set(keyId, toKey(key, `key "${keyId}"`));
+  });
+  if (!keys.has(options.currentKeyId)) {
+    throw new Error(`encryptedFields: the current key "${options.currentKeyId}" is not one of the keys.`);
+  }
+  const blindIndexKey = options.blindIndexKey ? toKey(options.blindIndexKey, 'the blind index key') : undefined;
+
+  return {
+    getCurrentKeyId: () => options.currentKeyId,
+    getKey: (keyId) => keys.get(keyId),
+    ...(blindIndexKey ? { getBlindIndexKey: () => blindIndexKey } : {}),
+  };
+};
+
+interface Envelope {
+  keyId: string;
+  iv: Buffer;
+  tag: Buffer;
+  data: Buffer;
+}
+
+const parseEnvelope = (value: unknown): Envelope | undefined => {
+  if (typeof value !== 'string' || !value.startsWith(ENVELOPE_PREFIX)) return undefined;
+  const parts = value.slice(ENVELOPE_PREFIX.length).split(':');
+  if (parts.length !== 4) return undefined;
+  const [keyId, iv, tag, data] = parts;
+  return {
+    keyId,
+    iv: Buffer.from(iv, 'base64'),
+    tag: Buffer.from(tag, 'base64'),
+    data: Buffer.from(data, 'base64'),
+  };
+};
+
+// Read a value of a plain object by its dotted path
+const getValue = (obj: Record<string, any>, path: string): unknown =>
+  path.split('.').reduce((current: any, key) => (current ? current[key] : undefined), obj);
+
+// Set a value of a plain object by its dotted path
+const setValue = (obj: Record<string, any>, path: string, value: unknown): void => {
+  const segments = path.split('.');
+  const parent = segments.slice(0, -1).reduce((current, key) => (current[key] = current[key] || {}), obj);
+  parent[segments[segments.length - 1]] = value;
+};
+
+// Where an update operator's object or a raw document holds `segments`: under a dotted key or in nested objects
+const findSlot = (container: Record<string, any>, segments: string[]): [Record<string, any>, string] | undefined => {
+  for (let i = segments.length; i > 0; i--) {
+    const key = segments.slice(0, i).join('.');
+    if (!(key in container)) continue;
+    if (i === segments.length) return [container, key];
+    return isPlainObject(container[key]) ? findSlot(container[key], segments.slice(i)) : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Mongoose Schema Plugin encrypting the paths marked `encrypt: true` with AES-256-GCM: values are encrypted
+ * by saves, updates and insertMany, and decrypted as documents are loaded. Paths marked
+ * `encrypt: { blindIndex: true }` also get a private HMAC index, so equality filters on them keep working.
+ * @param schema The Mongoose Schema to modify.
+ * @param options Plugin options.
+ */
+export const encryptedFields = (schema: Schema<any>, options: EncryptedFieldsOptions): void => {
+  const provider = options?.keyProvider;
+  if (!provider) throw new Error('encryptedFields: a keyProvider is required.');
+
+  const encryptedPaths: EncryptedPath[] = getEncryptedPaths(schema).map((path) => {
+    const schemaType = (schema.paths as Record<string, any>)[path];
+    if (!schemaType) {
+      throw new Error(`encryptedFields: "${path}" is inside a subdocument, where paths cannot be encrypted.`);
+    }
+    if (schemaType.instance !== 'String') {
+      throw new Error(`encryptedFields: "${path}" must be a String path to be encrypted.`);
+    }
+    const { encrypt } = schemaType.options;
+    const hasBlindIndex = typeof encrypt === 'object' && Boolean(encrypt.blindIndex);
+    return { path, blindIndexPath: hasBlindIndex ? `${path}${BLIND_INDEX_SUFFIX}` : undefined };
+  });
+  if (encryptedPaths.length === 0) throw new Error('encryptedFields: no path of the schema is marked encrypt.');
+
+  if (encryptedPaths.some(({ blindIndexPath }) => blindIndexPath) && !provider.getBlindIndexKey) {
+    throw new Error('encryptedFields: blind indexes need a key provider with getBlindIndexKey().');
+  }
+  encryptedPaths.forEach(({ blindIndexPath }) => {
+    if (blindIndexPath) schema.add({ [blindIndexPath]: { type: String, private: true, index: true } });
+  });
+
+  const pathsByName = new Map(encryptedPaths.map((encrypted) => [encrypted.path, encrypted]));
+
+  // Validators check the plaintext: save validates before its middleware encrypts, and the plugin validates
+  // insertMany documents and updates with runValidators itself. The ciphertext they see afterwards is decrypted
+  // first, so a value only passes as ciphertext when it authenticates with the provider's keys.
+  encryptedPaths.forEach(({ path }) => {
+    (schema.path(path) as any).validators.forEach((entry: { validator: (...args: any[]) => unknown }) => {
+      const validate = entry.validator;
+      entry.validator = function (this: unknown, value: unknown, ...args: unknown[]) {
+        const envelope = parseEnvelope(value);
+        if (!envelope) return validate.call(this, value, ...args);
+        let plaintext: string;
+        try {
+          plaintext = decryptEnvelope(envelope);
+        } catch {
+          return false;
+        }
+        return validate.call(this, plaintext, ...args);
+      };
+    });
+  });
+
+  const encryptValue = (value: string): string => {
+    const keyId = provider.getCurrentKeyId();
+    const key = provider.getKey(keyId);
+    if (!key || keyId.includes(':')) throw new Error(`encryptedFields: invalid current key "${keyId}".`);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    const parts = [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64'));
+    return `${ENVELOPE_PREFIX}${keyId}:${parts.join(':')}`;
+  };
+
+  const decryptEnvelope = (envelope: Envelope): string => {
+    const key = provider.getKey(envelope.keyId);
+    if (!key) throw new Error(`encryptedFields: unknown key "${envelope.keyId}".`);
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key, envelope.iv);
+      decipher.setAuthTag(envelope.tag);
+      return Buffer.concat([decipher.update(envelope.data), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error(`encryptedFields: a value encrypted with key "${envelope.keyId}" failed authentication.`);
+    }
+  };
+
+  // Hashed with its path, so equal values of different paths do not share an index entry
+  const toBlindIndex = (path: string, value: unknown): string | null => {
+    if (value === undefined || value === null) return null;
+    return createHmac('sha256', provider.getBlindIndexKey!())
+      .update(`${path}:${String(value)}`)
+      .digest('base64');
+  };
+
+  // Encrypt the value at `segments` of an update or raw document, written as a dotted key or as nested
+  // objects, and write its blind index next to it. Nested objects are copied rather than modified.
+  const encryptAt = (container: Record<string, any>, segments: string[], encrypted: EncryptedPath): void => {
+    for (let i = segments.length; i > 0; i--) {
+      const key = segments.slice(0, i).join('.');
+      if (!(key in container)) continue;
+      if (i === segments.length) {
+        const value = container[key];
+        if (encrypted.blindIndexPath) container[`${key}${BLIND_INDEX_SUFFIX}`] = toBlindIndex(encrypted.path, value);
+        if (value !== undefined && value !== null) container[key] = encryptValue(String(value));
+      } else if (isPlainObject(container[key])) {
+        container[key] = { ...container[key] };
+        encryptAt(container[key], segments.slice(i), encrypted);
+      }
+      return;
+    }
+  };
+
+  const encryptWrites = (obj: Record<string, any>): Record<string, any> => {
+    encryptedPaths.forEach((encrypted) => encryptAt(obj, encrypted.path.split('.'), encrypted));
+    return obj;
+  };
+
+  // The values an update operator's object or a raw document writes to encrypted paths
+  const readWrites = (obj: Record<string, any>): Record<string, unknown> => {
+    const values: Record<string, unknown> = {};
+    encryptedPaths.forEach(({ path }) => {
+      const slot = findSlot(obj, path.split('.'));
+      const value = slot?.[0][slot[1]];
+      if (value !== undefined && value !== null) values[path] = value;
+    });
+    return values;
+  };
+
+  const validatePlaintext = async (model: Model<any>, values: Record<string, unknown>): Promise<Error | undefined> => {
+    const paths = Object.keys(values);
+    if (paths.length === 0) return undefined;
+    const obj: Record<string, any> = {};
+    paths.forEach((path) => setValue(obj, path, values[path]));
+    try {
+      await model.validate(obj, paths);
+      return undefined;
+    } catch (error) {
+      return error as Error;
+    }
+  };
+
+  // Decrypt every value encrypted by the plugin, at any depth; values under a key the provider does not
+  // know (e.g. joined from a model with another provider) are left as they are
+  const decryptDeep = (value: any): any => {
+    const envelope = parseEnvelope(value);
+    if (envelope) return provider.getKey(envelope.keyId) ? decryptEnvelope(envelope) : value;
+    if (Array.isArray(value)) return value.map(decryptDeep);
+    if (isPlainObject(value)) {
+      Object.keys(value).forEach((key) => {
+        value[key] = decryptDeep(value[key]);
+      });
+    }
+    return value;
+  };
+
+  // Encrypt the new and modified paths of a document; their plaintext is returned to restore after the write
+  const encryptDocument = (doc: Document): Record<string, unknown> => {
+    const plaintext: Record<string, unknown> = {};
+    encryptedPaths.forEach(({ path, blindIndexPath }) => {
+      if (!doc.isNew && !doc.isModified(path)) return;
+      const value = doc.get(path, null, { getters: false });
+      if (blindIndexPath) doc.set(blindIndexPath, toBlindIndex(path, value));
+      if (value === undefined || value === null) return;
+      plaintext[path] = value;
+      doc.set(path, encryptValue(String(value)));
+    });
+    return plaintext;
+  };
+
+  // Replace the encrypted values of a document with their plaintext, leaving them unmodified
+  const decryptDocument = (doc: Document): void => {
+    encryptedPaths.forEach(({ path }) => {
+      const envelope = parseEnvelope(doc.get(path, null, { getters: false }));
+      if (!envelope) return;
+      doc.set(path, decryptEnvelope(envelope));
+      doc.unmarkModified(path);
+    });
+  };
+
+  // Rewrite conditions on encrypted paths into conditions on their blind index
+  const rewriteFilter = (filter: Record<string, any>): Record<string, any> =>
+    Object.fromEntries(
+      Object.entries(filter).map(([key, condition]) => {
+        if (LOGICAL_OPERATORS.includes(key) && Array.isArray(condition)) return [key, condition.map(rewriteFilter)];
+        const encrypted = pathsByName.get(key);
+        if (!encrypted) return [key, condition];
+        if (!encrypted.blindIndexPath) {
+          throw new Error(`encryptedFields: "${key}" is encrypted without a blind index and cannot be queried.`);
+        }
+
+        const hash = (value: unknown) => toBlindIndex(key, value);
+        const isOperatorObject =
+          isPlainObject(condition) && Object.keys(condition).some((operator) => operator.startsWith('$'));
+        if (!isOperatorObject) {
+          if (condition instanceof RegExp || (condition && typeof condition === 'object')) {
+            throw new Error(`encryptedFields: "${key}" can only be compared for equality.`);
+          }
+          return [encrypted.blindIndexPath, hash(condition)];
+        }
+
+        const operators = Object.entries(condition).map(([operator, operand]) => {
+          if (!EQUALITY_OPERATORS.includes(operator)) {
+            throw new Error(`encryptedFields: "${key}" can only be compared for equality, not with ${operator}.`);
+          }
+          if (operator === '$exists') return [operator, operand];
+          return [operator, Array.isArray(operand) ? operand.map(hash) : hash(operand)];
+        });
+        return [encrypted.blindIndexPath, Object.fromEntries(operators)];
+      }),
+    );
+
+  // Document middleware: validation runs before save middleware, so validators see the plaintext
+  schema.pre('save', function (this: Document) {
+    this.$locals.encryptedPlaintext = encryptDocument(this);
+  });
+
+  const restorePlaintext = (doc: Document): void => {
+    const plaintext = doc.$locals.encryptedPlaintext as Record<string, unknown> | undefined;
+    if (!plaintext) return;
+    Object.entries(plaintext).forEach(([path, value]) => {
+      doc.set(path, value);
+      doc.unmarkModified(path);
+    });
+    delete doc.$locals.encryptedPlaintext;
+  };
+
+  schema.post('save', function (this: Document) {
+    restorePlaintext(this);
+  });
+  // A failed save must not leave the ciphertext in the document either
+  schema.post('save', function (error: Error, doc: Document, next: (error?: Error) => void) {
+    restorePlaintext(doc);
+    next(error);
+  });
+
+  schema.post('init', function (this: Document) {
+    decryptDocument(this);
+  });
+
+  // insertMany validates after its middleware, so the plaintext is validated here first, even with `lean`
+  // (which skips insertMany's own validation). Every document is encrypted, and an invalid one rejects the
+  // whole batch, `ordered: false` included, since the ciphertext would otherwise be stored unchecked.
+  schema.pre('insertMany', function (this: Model<any>, next, docs: any) {
+    const list: Record<string, any>[] = Array.isArray(docs) ? docs : [docs];
+    Promise.all(
+      list.map((doc) => {
+        const isDocument = doc instanceof Document;
+        return validatePlaintext(this, readWrites(isDocument ? (doc as Document).toObject({ depopulate: true }) : doc));
+      }),
+    )
+      .then((errors) => {
+        const error = errors.find(Boolean);
+        if (error) throw error;
+        list.forEach((doc) => {
+          if (doc instanceof Document) doc.$locals.encryptedPlaintext = encryptDocument(doc);
+          else encryptWrites(doc);
+        });
+      })
+      .then(
+        () => next(),
+        (error) => next(error),
+      );
+  });
+
+  schema.post('insertMany', function (this: Model<any>, docs: any) {
+    (Array.isArray(docs) ? docs : [docs]).forEach((doc: Record<string, any>) => {
+      if (doc instanceof Document) {
+        restorePlaintext(doc);
+        decryptDocument(doc);
+      } else {
+        decryptDeep(doc);
+      }
+    });
+  });
+
+  // Query middleware
+  schema.pre(FILTERED_QUERY_OPS, function (this: Query<any, any>) {
+    this.setQuery(rewriteFilter(this.getFilter()));
+  });
+
+  schema.pre(UPDATE_QUERY_OPS, async function (this: Query<any, any>) {
+    const modelName = this.model.modelName;
+    const update = this.getUpdate() as Record<string, any> | Record<string, any>[] | null;
+    if (!update) return;
+
+    if (Array.isArray(update)) {
+      // Pipeline updates compute values on the server, where they cannot be encrypted
+      const written = encryptedPaths.find(({ path }) => JSON.stringify(update).includes(`"${path}"`));
+      if (written) throw new Error(`encryptedFields: pipeline updates of ${modelName} cannot write "${written.path}".`);
+      return;
+    }
+
+    if (this.getOptions().runValidators) {
+      const setters = [update, update.$set, update.$setOnInsert].filter(isPlainObject);
+      const values = Object.assign({}, ...setters.map(readWrites));
+      const error = await validatePlaintext(this.model, values);
+      if (error) throw error;
+    }
+
+    const encryptedUpdate: Record<string, any> = {};
+    Object.entries(update).forEach(([key, value]) => {
+      if (!key.startsWith('$') || !isPlainObject(value)) {
+        encryptedUpdate[key] = value;
+        return;
+      }
+      if (ENCRYPTED_SETTERS.includes(key)) {
+        encryptedUpdate[key] = encryptWrites({ ...value });
+        return;
+      }
+      const written = encryptedPaths.find(({ path }) => findSlot(value, path.split('.')));
+      if (written && key !== '$unset') {
+        throw new Error(`encryptedFields: ${key} cannot write the encrypted path "${written.path}" of ${modelName}.`);
+      }
+      // Unsetting a value drops its blind index too
+      encryptedUpdate[key] = { ...value };
+      encryptedPaths.forEach(({ path, blindIndexPath }) => {
+        if (blindIndexPath && path in value) encryptedUpdate[key][blindIndexPath] = value[path];
+      });
+    });
+    // Replacements, and updates written without operators, hold the values at the top level
+    this.setUpdate(encryptWrites(encryptedUpdate));
+  });
+
+  schema.post(LEAN_RESULT_OPS, function (this: Query<any, any>, result: unknown) {
+    if (this.mongooseOptions().lean) decryptDeep(result);
+  });
+
+  // Aggregations are not cast, so the leading and later top-level $match stages are rewritten here,
+  // and the rows are decrypted wherever they hold encrypted values
+  schema.pre('aggregate', function (this: Aggregate<any>) {
+    this.pipeline().forEach((stage: Record<string, any>) => {
+      if (stage.$match) stage.$match = rewriteFilter(stage.$match);
+      // paginate's `near` option passes the filter as the query of a leading $geoNear
+      if (stage.$geoNear?.query) stage.$geoNear.query = rewriteFilter(stage.$geoNear.query);
+    });
+  });
+
+  schema.post('aggregate', function (this: Aggregate<any>, result: unknown) {
+    decryptDeep(result);
+  });
+
+  /**
+   * Re-encrypts, in batches, every value stored under a key other than the current one, and encrypts
+   * plaintext written before the plugin was added. Writes go to the collection directly, without
+   * middleware, so the rotation covers every tenant and soft-deleted document.
+   */
+  schema.statics.rotateKeys = async function (
+    this: Model<any>,
+    rotateOptions: RotateKeysOptions = {},
+  ): Promise<RotateKeysResult> {
+    const batchSize = rotateOptions.batchSize ?? 100;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new Error(`encryptedFields: invalid batchSize "${rotateOptions.batchSize}". Must be a positive integer.`);
+    }
+
+    const current = new RegExp(`^${escapeRegex(`${ENVELOPE_PREFIX}${provider.getCurrentKeyId()}:`)}`);
+    const stale = { $or: encryptedPaths.map(({ path }) => ({ [path]: { $type: 'string', $not: current } })) };
+    const filter = rotateOptions.filter ? { $and: [this.find(rotateOptions.filter).cast(this), stale] } : stale;
+    const projection = Object.fromEntries(encryptedPaths.map(({ path }) => [path, 1]));
+
+    let rotated = 0;
+    let operations: any[] = [];
+    const flush = async () => {
+      if (operations.length === 0) return;
+      const result = await this.collection.bulkWrite(operations, { ordered: false });
+      rotated += result.modifiedCount;
+      operations = [];
+    };
+
+    for await (const doc of this.collection.find(filter, { projection, batchSize })) {
+      const previous: Record<string, unknown> = {};
+      const $set: Record<string, unknown> = {};
+      encryptedPaths.forEach(({ path, blindIndexPath }) => {
+        const value = getValue(doc, path);
+        if (typeof value !== 'string' || current.test(value)) return;
+        const envelope = parseEnvelope(value);
+        const plaintext = envelope ? decryptEnvelope(envelope) : value;
+        previous[path] = value;
+        $set[path] = encryptValue(plaintext);
+        if (blindIndexPath) $set[blindIndexPath] = toBlindIndex(path, plaintext);
+      });
+      // Documents written since they were read are left alone; the write already used the current key
+      operations.push({ updateOne: { filter: { _id: doc._id, ...previous }, update: { $set } } });
+      if (operations.length >= batchSize) await flush();
+    }
+    await flush();
+
+    return { rotated };
+  };
+};
+
+export default encryptedFields;
@@ -0,0 +1,33 @@
+/**
+ * - INVALID_OPTION: an option has the wrong type or format (sortBy, limit, page, count, populate, facets, ...)
+ * - INVALID_CURSOR: a paginateCursor cursor is malformed, tampered with or was made for another sortBy
+ * - INVALID_QUERY: parsePaginateQuery rejected HTTP params (see PaginateQueryError.issues)
+ * - SORT_NOT_ALLOWED: a sortBy path is not in the guard's `allowedSortFields`
+ * - SORT_NOT_INDEXED: `strictIndexSort` found no index serving the sort
+ * - LIMIT_EXCEEDED: `limit` is above the guard's `maxLimit`
+ * - FETCH_ALL_DISABLED: `page: -1` while the guard sets `allowFetchAll: false`
+ * - SKIP_EXCEEDED: the page starts deeper than the guard's `maxSkip`
+ */
+export type PaginateErrorCode =
+  | 'INVALID_OPTION'
+  | 'INVALID_CURSOR'
+  | 'INVALID_QUERY'
+  | 'SORT_NOT_ALLOWED'
+  | 'SORT_NOT_INDEXED'
+  | 'LIMIT_EXCEEDED'
+  | 'FETCH_ALL_DISABLED'
+  | 'SKIP_EXCEEDED';
+
+/**
+ * Thrown by paginate, paginateCursor, exportStream and parsePaginateQuery for invalid options and
+ * guard violations. Every code is caused by the request, so an API can answer with a 400 response.
+ */
+export class PaginateError extends Error {
+  code: PaginateErrorCode;
+
+  constructor(code: PaginateErrorCode, message: string) {
+    super(message);
+    this.name = 'PaginateError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,106 @@
+import { Readable } from 'stream';
+import { PaginateError } from './errors';
+import { isPlainObject } from './utils';
+
+export type ExportFormat = 'ndjson' | 'csv' | 'json';
+
+// A CSV column: a dotted path, or a path with its header label
+export type ExportColumn = string | { path: string; header: string };
+
+export interface ExportStreamOptions {
+  // Output format (default: 'ndjson')
+  format?: ExportFormat;
+  // CSV columns in order (default: the flattened paths of the first row)
+  columns?: ExportColumn[];
+  // CSV delimiter (default: ',')
+  delimiter?: string;
+  // Prefix CSV text cells starting with =, +, -, @, tab or CR with `'`, so spreadsheets do not run them
+  // as formulas (default: true)
+  escapeFormulas?: boolean;
+  // Documents fetched from MongoDB per round trip (default: 1000)
+  batchSize?: number;
+}
+
+// Flatten nested objects into dotted paths; arrays stay whole and are written as JSON
+const flattenRow = (value: Record<string, any>, prefix = '', flat: Record<string, any> = {}): Record<string, any> => {
+  Object.keys(value).forEach((key) => {
+    const path = `${prefix}${key}`;
+    if (isPlainObject(value[key]) && Object.keys(value[key]).length > 0) flattenRow(value[key], `${path}.`, flat);
+    else flat[path] = value[key];
+  });
+  return flat;
+};
+
+// Characters spreadsheets read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvValue = (value: unknown, delimiter: string, escapeFormulas: boolean): string => {
+  if (value === undefined || value === null) return '';
+
+  let text: string;
+  if (value instanceof Date) text = value.toISOString();
+  else if (Array.isArray(value) || isPlainObject(value)) text = JSON.stringify(value);
+  else text = String(value);
+  // Numbers are left as they are, so negative values stay numeric
+  if (escapeFormulas && typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+
+  const needsQuotes = text.includes(delimiter) || /["\r\n]/.test(text);
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values: unknown[], delimiter: string, escapeFormulas: boolean): string =>
+  `${values.map((value) => toCsvValue(value, delimiter, escapeFormulas)).join(delimiter)}\n`;
+
+async function* encodeRows(rows: AsyncIterable<Record<string, any>>, options: ExportStreamOptions) {
+  const format = options.format || 'ndjson';
+
+  if (format === 'ndjson') {
+    for await (const row of rows) yield `${JSON.stringify(row)}\n`;
+    return;
+  }
+
+  if (format === 'json') {
+    let separator = '';
+    yield '[';
+    for await (const row of rows) {
+      yield `${separator}${JSON.stringify(row)}`;
+      separator = ',';
+    }
+    yield ']';
+    return;
+  }
+
+  const delimiter = options.delimiter || ',';
+  const escapeFormulas = options.escapeFormulas !== false;
+  let columns = options.columns?.map((column) =>
+    typeof column === 'string' ? { path: column, header: column } : column,
+  );
+  if (columns) yield toCsvLine(columns.map((column) => column.header), delimiter, escapeFormulas);
+
+  for await (const row of rows) {
+    const flat = flattenRow(row);
+    if (!columns) {
+      columns = Object.keys(flat).map((path) => ({ path, header: path }));
+      yield toCsvLine(columns.map((column) => column.header), delimiter, escapeFormulas);
+    }
+    yield toCsvLine(columns.map((column) => flat[column.path]), delimiter, escapeFormulas);
+  }
+}
+
+/**
+ * Encode serialized rows as a byte stream. Rows are pulled from the source only as fast as the
+ * consumer reads, so a slow HTTP client never makes the whole result set pile up in memory.
+ */
+export const createExportStream = (
+  rows: AsyncIterable<Record<string, any>>,
+  options: ExportStreamOptions = {},
+): Readable => {
+  const format = options.format || 'ndjson';
+  if (!['ndjson', 'csv', 'json'].includes(format)) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `exportStream: invalid format "${format}". Expected "ndjson", "csv" or "json".`,
+    );
+  }
+  return Readable.from(encodeRows(rows, options), { objectMode: false });
+};
@@ -0,0 +1,215 @@
+import { PipelineStage, Schema } from 'mongoose';
+import { PaginateError } from './errors';
+import {
+  ToJSONOptions,
+  getEncryptedPaths,
+  getMaskedPaths,
+  getPrivatePaths,
+  getSchemaPaths,
+  getVisibleToPaths,
+} from './toJSON';
+import { isWithinPath } from './utils';
+
+// Most frequent values of a path
+export interface TermsFacet {
+  type: 'terms';
+  // Path to count (default: the facet name)
+  path?: string;
+  // Number of buckets returned, most frequent first (default: 10)
+  limit?: number;
+}
+
+// Counts between ascending boundaries: [0, 50, 100] gives the buckets 0–50 and 50–100
+export interface RangeFacet {
+  type: 'range';
+  path?: string;
+  boundaries: (number | Date)[];
+  // Label of the bucket counting values outside the boundaries (default: not counted)
+  default?: string;
+}
+
+// Counts per calendar period
+export interface DateHistogramFacet {
+  type: 'dateHistogram';
+  path?: string;
+  interval: DateHistogramInterval;
+  // Olson timezone or UTC offset the periods start in (default: 'UTC')
+  timezone?: string;
+}
+
+export type DateHistogramInterval = 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type FacetSpec = TermsFacet | RangeFacet | DateHistogramFacet;
+
+/**
+ * A bucket of a facet: the term, the lower boundary of a range (with `to`, exclusive),
+ * the `default` label of a range, or the first day of a date histogram period.
+ */
+export interface FacetBucket {
+  value: unknown;
+  count: number;
+  to?: number | Date;
+}
+
+export type FacetResults = Record<string, FacetBucket[]>;
+
+const FACET_TYPES = ['terms', 'range', 'dateHistogram'];
+const INTERVALS: DateHistogramInterval[] = ['hour', 'day', 'week', 'month', 'quarter', 'year'];
+
+const facetPath = (name: string, spec: FacetSpec): string => spec.path || name;
+
+/**
+ * Validate the `facets` option. Paths must exist in the schema unless the rows come from a custom
+ * pipeline, and private, masked and encrypted paths are rejected since their value counts would leak them.
+ * So are `visibleTo` paths none of the call's toJSON roles may see: the counts span every row, so "self" never applies.
+ */
+export const validateFacets = (
+  schema: Schema<any>,
+  facets: Record<string, FacetSpec>,
+  hasPipeline: boolean,
+  toJSON: ToJSONOptions | false | undefined,
+): void => {
+  const schemaPaths = getSchemaPaths(schema);
+  const privatePaths = getPrivatePaths(schema);
+  const maskedPaths = getMaskedPaths(schema);
+  // Rows are decrypted after an aggregation, bucket keys included
+  const encryptedPaths = getEncryptedPaths(schema);
+  const roles = toJSON ? [...(toJSON.roles || []), ...(toJSON.role ? [toJSON.role] : [])] : [];
+  const hiddenPaths = getVisibleToPaths(schema)
+    .filter(([, allowedRoles]) => !roles.some((role) => role !== 'self' && allowedRoles.includes(role)))
+    .map(([path]) => path);
+
+  Object.entries(facets).forEach(([name, spec]) => {
+    const fail = (reason: string): never => {
+      throw new PaginateError('INVALID_OPTION', `paginate: invalid facet "${name}": ${reason}`);
+    };
+
+    if (!spec || !FACET_TYPES.includes(spec.type)) {
+      fail(`unknown type "${spec?.type}". Expected "terms", "range" or "dateHistogram".`);
+    }
+
+    const path = facetPath(name, spec);
+    if (!hasPipeline && !schemaPaths.some((schemaPath) => isWithinPath(schemaPath, path))) {
+      fail(`"${path}" is not a path of the schema.`);
+    }
+    if (privatePaths.some((privatePath) => isWithinPath(path, privatePath))) {
+      fail(`"${path}" is private.`);
+    }
+    if (maskedPaths.some((maskedPath) => isWithinPath(path, maskedPath))) {
+      fail(`"${path}" is masked.`);
+    }
+    if (encryptedPaths.some((encryptedPath) => isWithinPath(path, encryptedPath))) {
+      fail(`"${path}" is encrypted.`);
+    }
+    if (hiddenPaths.some((hiddenPath) => isWithinPath(path, hiddenPath))) {
+      fail(`"${path}" is not visible to the caller's roles.`);
+    }
+
+    if (spec.type === 'terms' && spec.limit !== undefined && (!Number.isInteger(spec.limit) || spec.limit < 1)) {
+      fail(`limit must be a positive integer.`);
+    }
+    if (spec.type === 'range') {
+      const bounds = (spec.boundaries || []).map(Number);
+      if (bounds.length < 2 || bounds.some((bound, i) => isNaN(bound) || (i > 0 && bound <= bounds[i - 1]))) {
+        fail('boundaries must hold at least two ascending numbers or dates.');
+      }
+    }
+    if (spec.type === 'dateHistogram' && !INTERVALS.includes(spec.interval)) {
+      fail(`unknown interval "${spec.interval}". Expected one of ${INTERVALS.join(', ')}.`);
+    }
+  });
+};
+
+// Unwind every array on the way to the path (`tags`, `addresses` for `addresses.street`), so each element
+// is counted once. The last $unwind also covers arrays computed by a pipeline, and drops missing values.
+const buildUnwindStages = (schema: Schema<any>, path: string): PipelineStage.FacetPipelineStage[] => {
+  const segments = path.split('.');
+  const arrayPrefixes = segments
+    .map((_, i) => segments.slice(0, i + 1).join('.'))
+    .filter((prefix) => prefix !== path && schema.path(prefix)?.instance === 'Array');
+
+  return [...arrayPrefixes, path].map((prefix) => ({ $unwind: `$${prefix}` }));
+};
+
+const buildFacetStages = (schema: Schema<any>, name: string, spec: FacetSpec): PipelineStage.FacetPipelineStage[] => {
+  const path = facetPath(name, spec);
+  const stages = buildUnwindStages(schema, path);
+
+  if (spec.type === 'terms') {
+    stages.push(
+      { $group: { _id: `$${path}`, count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: spec.limit || 10 },
+    );
+  } else if (spec.type === 'range') {
+    const { boundaries } = spec;
+    // $bucket fails on values outside the boundaries unless they have a default bucket
+    if (spec.default === undefined) {
+      stages.push({ $match: { [path]: { $gte: boundaries[0], $lt: boundaries[boundaries.length - 1] } } });
+    }
+    stages.push({
+      $bucket: {
+        groupBy: `$${path}`,
+        boundaries,
+        ...(spec.default !== undefined ? { default: spec.default } : {}),
+        output: { count: { $sum: 1 } },
+      },
+    });
+  } else {
+    stages.push(
+      { $match: { [path]: { $type: 'date' } } },
+      {
+        $group: {
+          _id: { $dateTrunc: { date: `$${path}`, unit: spec.interval, timezone: spec.timezone || 'UTC' } },
+          count: { $sum: 1 },
+        },
+      },
+      { $sort: { _id: 1 } },
+    );
+  }
+
+  return stages;
+};
+
+/**
+ * `$facet` stage computing every facet over the matched documents in one aggregation.
+ */
+export const buildFacetStage = (schema: Schema<any>, facets: Record<string, FacetSpec>): PipelineStage.Facet => {
+  const pipelines: Record<string, PipelineStage.FacetPipelineStage[]> = {};
+  Object.entries(facets).forEach(([name, spec]) => {
+    pipelines[name] = buildFacetStages(schema, name, spec);
+  });
+  return { $facet: pipelines };
+};
+
+/**
+ * Turn the `$facet` output into buckets. Ranges list every boundary interval, empty ones included.
+ */
+export const formatFacetResults = (
+  facets: Record<string, FacetSpec>,
+  raw: Record<string, { _id: unknown; count: number }[]> | undefined,
+): FacetResults => {
+  const results: FacetResults = {};
+
+  Object.entries(facets).forEach(([name, spec]) => {
+    const rows = raw?.[name] || [];
+
+    if (spec.type !== 'range') {
+      results[name] = rows.map((row) => ({ value: row._id, count: row.count }));
+      return;
+    }
+
+    const countOf = (value: number | Date) =>
+      rows.find((row) => row._id !== spec.default && Number(row._id) === Number(value))?.count || 0;
+    const buckets: FacetBucket[] = spec.boundaries.slice(0, -1).map((from, i) => ({
+      value: from,
+      count: countOf(from),
+      to: spec.boundaries[i + 1],
+    }));
+    const other = rows.find((row) => row._id === spec.default);
+    if (spec.default !== undefined) buckets.push({ value: spec.default, count: other?.count || 0 });
+    results[name] = buckets;
+  });
+
+  return results;
+};
@@ -0,0 +1,134 @@
+import { PipelineStage, Schema } from 'mongoose';
+import { PaginateError } from './errors';
+import { LEADING_STAGES } from './utils';
+
+export type DistanceUnit = 'meters' | 'kilometers' | 'miles';
+
+/**
+ * "Nearest first" pagination: paginate builds the leading `$geoNear` stage from these options,
+ * merges the filter into its `query` and adds the distance to each result.
+ */
+export interface NearOptions {
+  // GeoJSON Point path with a 2dsphere index, e.g. 'location'
+  path: string;
+  // [longitude, latitude]
+  coordinates: readonly [number, number];
+  // Farthest and closest distance of the results, in `unit`
+  maxDistance?: number;
+  minDistance?: number;
+  // Unit of maxDistance, minDistance and the distance field (default: 'meters')
+  unit?: DistanceUnit;
+  // Field holding the distance in each result (default: 'distance')
+  distanceField?: string;
+}
+
+const METERS_PER_UNIT: Record<DistanceUnit, number> = { meters: 1, kilometers: 1000, miles: 1609.344 };
+
+// Stages paginate appends after the caller's pipeline, so a pipeline ending the output cannot be paged
+const TERMINAL_STAGES = ['$out', '$merge'];
+
+export const getDistanceField = (near: NearOptions): string => near.distanceField || 'distance';
+
+const isDistance = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const hasGeoIndex = (schema: Schema<any>, path: string): boolean =>
+  schema.indexes().some(([fields]) => fields[path] === '2dsphere');
+
+/**
+ * Validate the `near` option against the schema, before any query runs.
+ */
+export const validateNear = (schema: Schema<any>, modelName: string, near: NearOptions): void => {
+  if (!near || typeof near !== 'object' || typeof near.path !== 'string' || !near.path) {
+    throw new PaginateError('INVALID_OPTION', 'paginate: "near" needs the path of a GeoJSON Point.');
+  }
+  if (!hasGeoIndex(schema, near.path)) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: "near" needs a 2dsphere index on "${near.path}" of ${modelName}.`,
+    );
+  }
+
+  const [lng, lat] = Array.isArray(near.coordinates) ? near.coordinates : [];
+  const inRange = (value: unknown, bound: number) =>
+    typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= bound;
+  if (near.coordinates?.length !== 2 || !inRange(lng, 180) || !inRange(lat, 90)) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: invalid near coordinates ${JSON.stringify(near.coordinates)}. Expected [longitude, latitude].`,
+    );
+  }
+
+  if (near.unit !== undefined && !(near.unit in METERS_PER_UNIT)) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: invalid near unit "${near.unit}". Expected one of ${Object.keys(METERS_PER_UNIT).join(', ')}.`,
+    );
+  }
+  (['maxDistance', 'minDistance'] as const).forEach((key) => {
+    if (near[key] !== undefined && !isDistance(near[key])) {
+      throw new PaginateError('INVALID_OPTION', `paginate: invalid near ${key} "${near[key]}". Must be 0 or more.`);
+    }
+  });
+  if (near.minDistance !== undefined && near.maxDistance !== undefined && near.minDistance > near.maxDistance) {
+    throw new PaginateError('INVALID_OPTION', 'paginate: near minDistance cannot be greater than maxDistance.');
+  }
+
+  const distanceField = getDistanceField(near);
+  if (schema.pathType(distanceField) !== 'adhocOrUndefined') {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: the distance field "${distanceField}" is a path of ${modelName}; set near.distanceField.`,
+    );
+  }
+};
+
+/**
+ * `$geoNear` stage for the `near` option. Distances are spherical and computed in meters, so
+ * `maxDistance` and `minDistance` are converted from `unit`, and the distance field back to it.
+ */
+export const buildGeoNearStage = (near: NearOptions): PipelineStage.GeoNear => {
+  const metersPerUnit = METERS_PER_UNIT[near.unit || 'meters'];
+  const toMeters = (distance: number) => distance * metersPerUnit;
+
+  return {
+    $geoNear: {
+      near: { type: 'Point', coordinates: [near.coordinates[0], near.coordinates[1]] },
+      key: near.path,
+      distanceField: getDistanceField(near),
+      spherical: true,
+      ...(metersPerUnit !== 1 ? { distanceMultiplier: 1 / metersPerUnit } : {}),
+      ...(near.maxDistance !== undefined ? { maxDistance: toMeters(near.maxDistance) } : {}),
+      ...(near.minDistance !== undefined ? { minDistance: toMeters(near.minDistance) } : {}),
+    },
+  };
+};
+
+/**
+ * Check the stage order of a caller's `aggregation` before it runs: `$geoNear` and the Atlas search
+ * stages are only allowed first (and not at all with `near`, which builds its own `$geoNear`), and
+ * `$out` / `$merge` cannot be paged. A `$text` search cannot share a pipeline with `$geoNear`.
+ */
+export const checkStageOrder = (pipeline: PipelineStage[], hasNear: boolean): void => {
+  const leading = ['$geoNear', ...LEADING_STAGES];
+
+  pipeline.forEach((stage, index) => {
+    const [name] = Object.keys(stage);
+    if (leading.includes(name) && (index > 0 || hasNear)) {
+      const reason = hasNear ? `"near" already adds $geoNear as the first stage` : 'it must be the first stage';
+      throw new PaginateError('INVALID_OPTION', `paginate: ${name} at stage ${index} of "aggregation": ${reason}.`);
+    }
+    if (TERMINAL_STAGES.includes(name)) {
+      throw new PaginateError(
+        'INVALID_OPTION',
+        `paginate: ${name} cannot be used in "aggregation": paginate adds stages after the pipeline.`,
+      );
+    }
+  });
+
+  const [firstStage] = pipeline;
+  const usesGeoNear = hasNear || (firstStage !== undefined && '$geoNear' in firstStage);
+  const hasText = pipeline.some((stage) => '$match' in stage && JSON.stringify(stage.$match).includes('"$text"'));
+  if (usesGeoNear && hasText) {
+    throw new PaginateError('INVALID_OPTION', 'paginate: a $text search cannot be combined with $geoNear.');
+  }
+};
@@ -0,0 +1,137 @@
+import { Schema } from 'mongoose';
+import { PaginateError } from './errors';
+
+/**
+ * Limits set at plugin registration, `schema.plugin(paginate, { guard })`, protecting the database
+ * from expensive requests. Violations throw a PaginateError with the code of the broken rule.
+ */
+export interface PaginateGuardOptions {
+  // Paths accepted in `sortBy`; the default `createdAt` sort and the `_id` tie-breaker are always allowed
+  allowedSortFields?: string[];
+  // Largest accepted `limit`
+  maxLimit?: number;
+  // Accept `page: -1`, which fetches every matching document (default: true)
+  allowFetchAll?: boolean;
+  // Deepest accepted offset, `(page - 1) * limit`; deeper pages should use paginateCursor
+  maxSkip?: number;
+  // Default server-side time limit of every query and aggregation, in milliseconds
+  maxTimeMS?: number;
+  // Default for letting sorts and aggregations spill to disk past MongoDB's memory limit
+  allowDiskUse?: boolean;
+  // Reject sorts no schema index can serve (find path only); 'warn' logs them instead
+  strictIndexSort?: boolean | 'warn';
+}
+
+// Options passed through to MongoDB with every query and aggregation
+export interface ResourceOptions {
+  maxTimeMS?: number;
+  allowDiskUse?: boolean;
+}
+
+export const checkSortFields = (guard: PaginateGuardOptions, sortKeys: string[]): void => {
+  if (!guard.allowedSortFields) return;
+  sortKeys
+    .filter((key) => key !== '_id' && key !== 'textScore')
+    .forEach((key) => {
+      if (!guard.allowedSortFields!.includes(key)) {
+        throw new PaginateError('SORT_NOT_ALLOWED', `paginate: sorting by "${key}" is not allowed.`);
+      }
+    });
+};
+
+export const checkLimit = (guard: PaginateGuardOptions, limit: number): void => {
+  if (guard.maxLimit !== undefined && limit > guard.maxLimit) {
+    throw new PaginateError('LIMIT_EXCEEDED', `paginate: limit ${limit} exceeds the maximum of ${guard.maxLimit}.`);
+  }
+};
+
+export const checkPageWindow = (guard: PaginateGuardOptions, page: number, skip: number): void => {
+  if (page === -1 && guard.allowFetchAll === false) {
+    throw new PaginateError('FETCH_ALL_DISABLED', 'paginate: page -1 (fetch all records) is disabled.');
+  }
+  if (guard.maxSkip !== undefined && skip > guard.maxSkip) {
+    throw new PaginateError(
+      'SKIP_EXCEEDED',
+      `paginate: page starts at offset ${skip}, deeper than the maximum of ${guard.maxSkip}. Use paginateCursor.`,
+    );
+  }
+};
+
+// Per-call values win over the guard's defaults
+export const resolveResourceOptions = (guard: PaginateGuardOptions, options: ResourceOptions): ResourceOptions => {
+  const resourceOptions: ResourceOptions = {};
+  const maxTimeMS = options.maxTimeMS ?? guard.maxTimeMS;
+  const allowDiskUse = options.allowDiskUse ?? guard.allowDiskUse;
+  if (maxTimeMS !== undefined) resourceOptions.maxTimeMS = maxTimeMS;
+  if (allowDiskUse !== undefined) resourceOptions.allowDiskUse = allowDiskUse;
+  return resourceOptions;
+};
+
+// Each unindexed sort is logged once per process
+const warnedSorts = new Set<string>();
+
+// Top-level paths the filter pins to a single value; index fields on them can be skipped by a sort
+const getEqualityPaths = (filter: Record<string, any>): Set<string> =>
+  new Set(
+    Object.entries(filter)
+      .filter(([key, value]) => {
+        if (key.startsWith('$')) return false;
+        const isOperatorObject =
+          value && typeof value === 'object' && Object.keys(value).some((operator) => operator.startsWith('$'));
+        return !isOperatorObject || Object.keys(value).every((operator) => operator === '$eq');
+      })
+      .map(([key]) => key),
+  );
+
+// An index serves a sort when the sort keys follow its fields in order (all in its direction or all reversed),
+// allowing index fields pinned by an equality condition in between
+const servesSort = (indexFields: Record<string, unknown>, sort: [string, number][], equalityPaths: Set<string>) => {
+  const fields = Object.entries(indexFields);
+  if (fields.some(([, type]) => typeof type !== 'number')) return false; // text, hashed and geo indexes
+
+  let position = 0;
+  let direction = 0;
+  return sort.every(([key, order]) => {
+    while (position < fields.length && fields[position][0] !== key && equalityPaths.has(fields[position][0])) {
+      position++;
+    }
+    if (position >= fields.length || fields[position][0] !== key) return false;
+
+    const relative = Math.sign(Number(fields[position][1])) === Math.sign(order) ? 1 : -1;
+    if (direction !== 0 && relative !== direction) return false;
+    direction = relative;
+    position++;
+    return true;
+  });
+};
+
+/**
+ * Check the sort against the schema's indexes (and the implicit `_id` index) when `strictIndexSort` is set.
+ */
+export const checkIndexedSort = (
+  schema: Schema<any>,
+  guard: PaginateGuardOptions,
+  modelName: string,
+  sort: Record<string, unknown>,
+  filter: Record<string, any>,
+): void => {
+  if (!guard.strictIndexSort) return;
+
+  const entries = Object.entries(sort);
+  // Relevance sorts come from the text index of the search
+  if (entries.some(([, order]) => typeof order !== 'number')) return;
+
+  const sortEntries = entries as [string, number][];
+  const equalityPaths = getEqualityPaths(filter);
+  const indexes = [{ _id: 1 }, ...schema.indexes().map(([fields]) => fields)];
+  if (indexes.some((fields) => servesSort(fields, sortEntries, equalityPaths))) return;
+
+  const sortDescription = sortEntries.map(([key, order]) => `${key}:${order === -1 ? 'desc' : 'asc'}`).join(',');
+  const message = `paginate: no index of ${modelName} serves the sort "${sortDescription}".`;
+  if (guard.strictIndexSort === 'warn') {
+    if (!warnedSorts.has(message)) console.warn(message);
+    warnedSorts.add(message);
+    return;
+  }
+  throw new PaginateError('SORT_NOT_INDEXED', message);
+};
@@ -1,12 +1,203 @@
-import { PaginateModel, PaginateOptions, QueryResult, paginate } from './paginate';
-import { toJSON, PluginSchema, ToJSONOptions } from './toJSON';
+import {
+  CountStrategy,
+  CursorPaginateOptions,
+  CursorQueryResult,
+  ExportQueryOptions,
+  LabeledQueryResult,
+  PaginateDefaults,
+  PaginateModel,
+  PaginateOptions,
+  PaginatePluginOptions,
+  PaginateResult,
+  QueryResult,
+  QueryResultLabels,
+  configurePaginate,
+  paginate,
+} from './paginate';
+import { createLRUCache, LRUCacheOptions, PaginateCacheAdapter } from './cache';
+import { PaginateError, PaginateErrorCode } from './errors';
+import { PaginateGuardOptions } from './guard';
+import { LeanDoc, ProjectedDoc, SchemaPath } from './projection';
+import { ExportColumn, ExportFormat, ExportStreamOptions } from './exportStream';
+import {
+  DateHistogramFacet,
+  DateHistogramInterval,
+  FacetBucket,
+  FacetResults,
+  FacetSpec,
+  RangeFacet,
+  TermsFacet,
+} from './facets';
+import { DistanceUnit, NearOptions } from './geo';
+import {
+  buildLinkHeader,
+  buildPaginationHeaders,
+  buildPaginationLinks,
+  PaginationLinkOptions,
+  PaginationLinks,
+} from './links';
+import { PopulateSpec } from './populate';
+import { AliasSpec } from './alias';
+import {
+  PaginateQueryError,
+  PaginateQueryIssue,
+  PaginateQueryIssueCode,
+  ParsedPaginateQuery,
+  ParsePaginateQueryConfig,
+  parsePaginateQuery,
+} from './queryParser';
+import {
+  softDelete,
+  SoftDeleteDocument,
+  SoftDeleteModel,
+  SoftDeleteOptions,
+  SoftDeleteQueryHelpers,
+  SoftDeleteQueryOptions,
+  SoftDeleteStatics,
+} from './softDelete';
+import { tenantScope, runWithTenant, runWithoutTenant, getCurrentTenant, TenantScopeOptions } from './tenantScope';
+import {
+  encryptedFields,
+  createKeyProvider,
+  EncryptedFieldsOptions,
+  EncryptedFieldsStatics,
+  EncryptionKeyProvider,
+  KeyProviderOptions,
+  RotateKeysOptions,
+  RotateKeysResult,
+} from './encryptedFields';
+import {
+  toJSON,
+  applyToJSON,
+  Mask,
+  MaskName,
+  PluginSchema,
+  SerializableType,
+  Serializer,
+  SerializerName,
+  ToJSONOptions,
+  ToJSONPluginOptions,
+  ToJSONView,
+} from './toJSON';
+import {
+  auditTrail,
+  runWithActor,
+  AuditChange,
+  AuditEntry,
+  AuditOperation,
+  AuditTrailMethods,
+  AuditTrailOptions,
+  AuditTrailStatics,
+} from './auditTrail';
  
 // Re-export the pagination plugin and related types
-export { paginate, PaginateModel, PaginateOptions, QueryResult };
+export {
+  paginate,
+  PaginateModel,
+  PaginateOptions,
+  QueryResult,
+  CountStrategy,
+  CursorPaginateOptions,
+  CursorQueryResult,
+  PopulateSpec,
+  ExportQueryOptions,
+  ExportStreamOptions,
+  ExportFormat,
+  ExportColumn,
+  QueryResultLabels,
+  LabeledQueryResult,
+  PaginateResult,
+  PaginatePluginOptions,
+  PaginateDefaults,
+  configurePaginate,
+};
+
+// Re-export the result cache adapters of `schema.plugin(paginate, { cache })`
+export { createLRUCache, LRUCacheOptions, PaginateCacheAdapter };
+
+// Re-export the error thrown for invalid options and guard violations, and the `guard` plugin option
+export { PaginateError, PaginateErrorCode, PaginateGuardOptions };
+
+// Re-export the facet types of the `facets` option and `QueryResult.facets`
+export { FacetSpec, TermsFacet, RangeFacet, DateHistogramFacet, DateHistogramInterval, FacetBucket, FacetResults };
+
+// Re-export the types of the `near` option (nearest-first pagination)
+export { NearOptions, DistanceUnit };
+
+// Re-export the types inferring paginate rows from literal `fields` / `alias` options
+export { LeanDoc, ProjectedDoc, SchemaPath };
+
+// Re-export the helpers building Link / X-Total-Count headers and JSON:API links from a paginate result
+export { buildPaginationLinks, buildLinkHeader, buildPaginationHeaders, PaginationLinks, PaginationLinkOptions };
+
+// Re-export the schema-level alias spec shared by the paginate and toJSON plugins
+export { AliasSpec };
+
+// Re-export the query-string parser that builds paginate filters and options from HTTP params
+export {
+  parsePaginateQuery,
+  PaginateQueryError,
+  PaginateQueryIssue,
+  PaginateQueryIssueCode,
+  ParsedPaginateQuery,
+  ParsePaginateQueryConfig,
+};
  
 // Re-export the toJSON plugin and related types
 // `toJSONPlugin` is an alias for `toJSON` for clearer plugin usage: schema.plugin(toJSONPlugin)
-export { toJSON, toJSON as toJSONPlugin, PluginSchema, ToJSONOptions };
+// `applyToJSON` runs the same rules on plain objects (lean or aggregation results)
+export {
+  toJSON,
+  toJSON as toJSONPlugin,
+  applyToJSON,
+  PluginSchema,
+  ToJSONOptions,
+  ToJSONPluginOptions,
+  ToJSONView,
+  Serializer,
+  SerializerName,
+  SerializableType,
+  Mask,
+  MaskName,
+};
+ 
+// Re-export the soft delete plugin and related types
+export {
+  softDelete,
+  SoftDeleteDocument,
+  SoftDeleteModel,
+  SoftDeleteOptions,
+  SoftDeleteQueryHelpers,
+  SoftDeleteQueryOptions,
+  SoftDeleteStatics,
+};
+
+// Re-export the tenant scope plugin and its async context helpers
+export { tenantScope, runWithTenant, runWithoutTenant, getCurrentTenant, TenantScopeOptions };
+
+// Re-export the field encryption plugin, its key provider and related types
+export {
+  encryptedFields,
+  createKeyProvider,
+  EncryptedFieldsOptions,
+  EncryptedFieldsStatics,
+  EncryptionKeyProvider,
+  KeyProviderOptions,
+  RotateKeysOptions,
+  RotateKeysResult,
+};
+
+// Re-export the audit trail plugin and related types
+export {
+  auditTrail,
+  runWithActor,
+  AuditChange,
+  AuditEntry,
+  AuditOperation,
+  AuditTrailMethods,
+  AuditTrailOptions,
+  AuditTrailStatics,
+};
  
 // Note: Ensure your mongoose-paginate.ts and mongoose-to-json.ts files are in the same directory as this index.ts.
  
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { QueryResult } from './paginate';
+
+export interface PaginationLinkOptions {
+  // Query param carrying the page number (default: 'page')
+  pageParam?: string;
+  // Query param carrying the page size (default: 'limit')
+  limitParam?: string;
+}
+
+// JSON:API-style links; `last` is null when the total is only a lower bound
+export interface PaginationLinks {
+  self: string;
+  first: string;
+  last: string | null;
+  prev: string | null;
+  next: string | null;
+}
+
+const ABSOLUTE_URL = /^[a-z][a-z\d+\-.]*:\/\//i;
+
+// Set the page and limit params on the request URL, keeping every other param (filters, sort)
+const buildPageUrl = (baseUrl: string, page: number, limit: number, options: PaginationLinkOptions): string => {
+  // Relative URLs (e.g. Express `req.originalUrl`) are resolved against a placeholder and stay relative
+  const url = new URL(baseUrl, 'http://localhost');
+  url.searchParams.set(options.pageParam || 'page', String(page));
+  url.searchParams.set(options.limitParam || 'limit', String(limit));
+  return ABSOLUTE_URL.test(baseUrl) ? url.toString() : `${url.pathname}${url.search}${url.hash}`;
+};
+
+/**
+ * Build JSON:API-style `links` for a paginate result.
+ * @param result The paginate result (without `customLabels`).
+ * @param baseUrl The request URL with its original query, e.g. `req.originalUrl`.
+ */
+export const buildPaginationLinks = (
+  result: QueryResult<unknown>,
+  baseUrl: string,
+  options: PaginationLinkOptions = {},
+): PaginationLinks => {
+  const toUrl = (page: number) => buildPageUrl(baseUrl, page, result.limit, options);
+  const lastPage = Math.max(result.totalPages, 1);
+
+  return {
+    self: toUrl(result.page),
+    first: toUrl(1),
+    last: result.totalIsLowerBound ? null : toUrl(lastPage),
+    prev: result.prevPage !== null ? toUrl(result.prevPage) : null,
+    next: result.nextPage !== null ? toUrl(result.nextPage) : null,
+  };
+};
+
+/**
+ * Build an RFC 5988 `Link` header value, e.g.
+ * `</users?page=3&limit=20>; rel="next", </users?page=1&limit=20>; rel="prev", ...`
+ */
+export const buildLinkHeader = (
+  result: QueryResult<unknown>,
+  baseUrl: string,
+  options: PaginationLinkOptions = {},
+): string => {
+  const links = buildPaginationLinks(result, baseUrl, options);
+  return (['first', 'prev', 'next', 'last'] as const)
+    .filter((rel) => links[rel] !== null)
+    .map((rel) => `<${links[rel]}>; rel="${rel}"`)
+    .join(', ');
+};
+
+/**
+ * Response headers for a paginate result: `Link`, plus `X-Total-Count` when the total is exact.
+ * Usage: `res.set(buildPaginationHeaders(result, req.originalUrl))`.
+ */
+export const buildPaginationHeaders = (
+  result: QueryResult<unknown>,
+  baseUrl: string,
+  options: PaginationLinkOptions = {},
+): Record<string, string> => {
+  const headers: Record<string, string> = { Link: buildLinkHeader(result, baseUrl, options) };
+  if (!result.totalIsLowerBound) headers['X-Total-Count'] = String(result.totalResults);
+  return headers;
+};
@@ -6,74 +6,457 @@ import {
   SortOrder,
   QueryWithHelpers,
   Aggregate,
-  PopulateOptions,
 } from 'mongoose';
+import { Readable } from 'stream';
+import {
+  AliasSpec,
+  getSchemaAlias,
+  registerSchemaAlias,
+  translateFields,
+  translateFilter,
+  translateSortBy,
+} from './alias';
+import {
+  PaginateCacheAdapter,
+  buildCacheKey,
+  getCacheGeneration,
+  readCache,
+  registerCacheInvalidation,
+  writeCache,
+} from './cache';
+import { KeysetSort, buildKeysetFilter, decodeCursor, encodeCursor } from './cursor';
+import { PaginateError } from './errors';
+import { ExportStreamOptions, createExportStream } from './exportStream';
+import { FacetResults, FacetSpec, buildFacetStage, formatFacetResults, validateFacets } from './facets';
+import { NearOptions, buildGeoNearStage, checkStageOrder, getDistanceField, validateNear } from './geo';
+import {
+  PaginateGuardOptions,
+  checkIndexedSort,
+  checkLimit,
+  checkPageWindow,
+  checkSortFields,
+  resolveResourceOptions,
+} from './guard';
+import {
+  PopulateSpec,
+  buildLookupStages,
+  buildPopulateOptions,
+  projectViewPaths,
+  resolvePopulate,
+  selectViewPaths,
+  serializePopulated,
+} from './populate';
+import { PaginateOptionsCheck, ProjectedDoc } from './projection';
+import {
+  ToJSONOptions,
+  applyMasks,
+  applySchemaAlias,
+  applyToJSON,
+  getPrivatePaths,
+  getSchemaPaths,
+  getToJSONView,
+  hasToJSONPlugin,
+  stripEncrypted,
+} from './toJSON';
+import { SHUFFLE_KEY, buildShuffleKeyStage, shuffleArray } from './shuffle';
+import {
+  buildProjection,
+  escapeRegex,
+  hasScopeKey,
+  isScopedSchema,
+  isWithinPath,
+  parseFields,
+  prependMatchStage,
+} from './utils';
 
 export interface PaginateOptions {
   sortBy?: string;
-  populate?: string;
+  // `path:field1,field2;other.path`, `author(name,company).company(name)` or structured PopulateSpecs
+  populate?: string | PopulateSpec[];
   limit?: number;
   page?: number;
-  fields?: string;
+  // `name,score`, `-password` or a list of paths
+  fields?: string | readonly string[];
   aggregation?: PipelineStage[];
+  // Nearest first: a leading $geoNear on a 2dsphere path, adding the distance to each result
+  near?: NearOptions;
   alias?: string;
   includeTimeStamps?: boolean;
+  /** @deprecated Shuffles only the current page; use `shuffleSeed` or `sample` instead. */
   isShuffleRecord?: boolean;
+  // Stable random order: every page of a seed comes from the same permutation of the full result set
+  shuffleSeed?: string | number;
+  // `limit` random documents matching the filter ($sample), e.g. for "random picks" widgets
+  sample?: boolean;
+  // How totalResults is computed (default: 'exact')
+  count?: CountStrategy;
+  // Upper bound for the 'capped' count strategy (default: 1000)
+  countCap?: number;
+  // Free-text search, ANDed with the filter
+  search?: string;
+  // Paths searched with a case-insensitive regex when the schema has no text index
+  searchFields?: string | string[];
+  // 'auto' (default) uses $text when the schema has a text index, regex otherwise
+  searchMode?: 'auto' | 'text' | 'regex';
+  // Options for the toJSON plugin's rules applied to each result (false returns rows untransformed)
+  toJSON?: ToJSONOptions | false;
+  // Encrypted paths kept in rows serialized without the toJSON rules (`toJSON: false` or no toJSON plugin)
+  includeEncrypted?: string[] | boolean;
+  // toJSON view shaping each result; its `include` list also sets the DB projection and populate selects
+  view?: string;
+  // Keep `private: true` paths out of the DB projection so they never leave MongoDB
+  excludePrivate?: boolean;
+  // Include soft-deleted documents (softDelete plugin)
+  includeDeleted?: boolean;
+  // Rename keys of the result envelope, e.g. { results: 'docs', totalResults: 'totalDocs' }
+  customLabels?: QueryResultLabels;
+  // Bucket counts over all matching documents, e.g. { status: { type: 'terms' } }
+  facets?: Record<string, FacetSpec>;
+  // `false` skips the plugin's result cache for this call
+  cache?: boolean;
+  // Names the cache entry instead of the hash of the filter and options
+  cacheKey?: string;
+  // Server-side time limit of each query, in milliseconds (overrides the guard's default)
+  maxTimeMS?: number;
+  // Let sorts and aggregations use temporary files (overrides the guard's default)
+  allowDiskUse?: boolean;
 }
 
+/**
+ * Defaults for the options a call leaves out, set app-wide with configurePaginate() or per schema as plugin
+ * options. Per-call options take precedence over plugin options, which take precedence over configurePaginate().
+ */
+export interface PaginateDefaults {
+  // `limit` of calls without one (default: 10)
+  defaultLimit?: number;
+  // `sortBy` of calls without one (default: `createdAt:desc`, or `_id:desc` when the schema has no createdAt)
+  defaultSort?: string;
+  // `fields` of calls without `fields` or `view`
+  defaultFields?: string | readonly string[];
+  // `populate` of calls without one
+  defaultPopulate?: string | PopulateSpec[];
+  // `customLabels` of calls without them
+  customLabels?: QueryResultLabels;
+  // Key holding the document id in results (default: 'id')
+  idField?: string;
+  // Keep `_id` in results next to the id field (default: false)
+  keepMongoId?: boolean;
+}
+
+// Options of `schema.plugin(paginate, options)`
+export interface PaginatePluginOptions extends PaginateDefaults {
+  // Name of the paginate static (default: 'paginate'); paginateCursor and exportStream keep their names
+  methodName?: string;
+  // Adapter caching paginate results, e.g. createLRUCache(); entries are invalidated on every write to the model
+  cache?: PaginateCacheAdapter;
+  // Seconds a cached result is kept (default: 60)
+  ttl?: number;
+  // Sort allowlist, limit, page depth and resource limits enforced on every call
+  guard?: PaginateGuardOptions;
+  // Schema-level aliases (shared with the toJSON plugin), accepted in `filter`, `sortBy` and `fields`
+  alias?: AliasSpec;
+}
+
+/**
+ * - exact: full count of matching documents (countDocuments / `$count`)
+ * - estimated: collection metadata count, only used when the filter is empty (falls back to exact)
+ * - capped: counts up to `countCap` documents; totalResults is a lower bound beyond that
+ * - none: no count; fetches `limit + 1` rows to know whether a next page exists
+ * - facet: data and count in a single `$facet` aggregation
+ */
+export type CountStrategy = 'exact' | 'estimated' | 'capped' | 'none' | 'facet';
+
 export interface QueryResult<T> {
   results: T[];
   page: number;
   limit: number;
   totalPages: number;
   totalResults: number;
+  // The strategy that actually produced the totals
+  countStrategy: CountStrategy;
+  // True when more documents exist than reported in totalResults ('capped' and 'none' strategies)
+  totalIsLowerBound: boolean;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  nextPage: number | null;
+  prevPage: number | null;
+  // Position of the first result of the page in the whole result set (1-based)
+  pagingCounter: number;
+  // Buckets of the `facets` option, keyed by facet name
+  facets?: FacetResults;
 }
 
-// Defines the signature of the static paginate method
-interface PaginateMethod<T extends Document> {
-  paginate(filter?: Record<string, any>, options?: PaginateOptions): Promise<QueryResult<T>>;
+export type QueryResultLabels = Partial<Record<keyof QueryResult<unknown>, string>>;
+
+// QueryResult with its keys renamed by `customLabels`
+export type LabeledQueryResult<T, L extends QueryResultLabels> = {
+  [K in keyof QueryResult<T> as L[K] extends string ? L[K] : K]: QueryResult<T>[K];
+};
+
+export interface CursorPaginateOptions {
+  sortBy?: string;
+  populate?: string | PopulateSpec[];
+  limit?: number;
+  fields?: string | readonly string[];
+  aggregation?: PipelineStage[];
+  alias?: string;
+  // Cursor returned as `nextCursor` of a previous page
+  after?: string;
+  // Cursor returned as `prevCursor` of a previous page
+  before?: string;
+  // Secret used to sign cursors (falls back to the PAGINATE_CURSOR_SECRET env variable)
+  cursorSecret?: string;
+  includeTimeStamps?: boolean;
+  toJSON?: ToJSONOptions | false;
+  includeEncrypted?: string[] | boolean;
+  excludePrivate?: boolean;
+  includeDeleted?: boolean;
+  maxTimeMS?: number;
+  allowDiskUse?: boolean;
+}
+
+export interface CursorQueryResult<T> {
+  results: T[];
+  limit: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
+
+// The paginate options that shape rows, used by exportStream (which never pages)
+export type ExportQueryOptions = Pick<
+  PaginateOptions,
+  | 'sortBy'
+  | 'fields'
+  | 'populate'
+  | 'aggregation'
+  | 'alias'
+  | 'includeTimeStamps'
+  | 'toJSON'
+  | 'includeEncrypted'
+  | 'excludePrivate'
+  | 'includeDeleted'
+  | 'search'
+  | 'searchFields'
+  | 'searchMode'
+  | 'allowDiskUse'
+>;
+
+// QueryResult for the options: keys renamed when `customLabels` is a literal
+export type PaginateResult<D, O> = O extends { customLabels: infer L extends QueryResultLabels }
+  ? LabeledQueryResult<D, L>
+  : QueryResult<D>;
+
+// Defines the signature of the static paginate methods
+interface PaginateMethod<T extends Document, A extends string = never> {
+  /**
+   * Literal `fields` and `alias` options type the rows by their projected shape; with `aggregation`,
+   * pass the row type explicitly: `Model.paginate<Row>(filter, { aggregation })`.
+   */
+  paginate<R = never, const O extends PaginateOptions = PaginateOptions>(
+    filter?: Record<string, any>,
+    options?: O & PaginateOptionsCheck<T, O, A>,
+  ): Promise<PaginateResult<[R] extends [never] ? ProjectedDoc<T, O, A> : R, O>>;
+  paginateCursor(filter?: Record<string, any>, options?: CursorPaginateOptions): Promise<CursorQueryResult<T>>;
+  exportStream(
+    filter?: Record<string, any>,
+    options?: ExportQueryOptions,
+    streamOptions?: ExportStreamOptions,
+  ): Readable;
 }
 
 /**
  * The PaginateModel type is the strongly typed Mongoose Model
  * that includes the static paginate method added by this plugin.
- * This is the type you should use in your projects.
+ * This is the type you should use in your projects. Name the schema-level aliases in `TAlias`
+ * (e.g. `'fullName' | 'city'`) to use them in literal `sortBy` and `fields`.
  */
-export type PaginateModel<T extends Document> = Model<T> & PaginateMethod<T>;
+export type PaginateModel<T extends Document, TQueryHelpers = {}, TAlias extends string = never> = Model<
+  T,
+  TQueryHelpers
+> &
+  PaginateMethod<T, TAlias>;
 
-// Helper to recursively build populate query
-const buildNestedPopulateQuery = (field: string, selectFields: string[]): PopulateOptions => {
-  const nestedPathSegments = field.split('.');
+// Parse the `field:asc,other:desc` grammar
+const parseSortBy = (sortBy: string): Record<string, SortOrder> => {
+  const sort: Record<string, SortOrder> = {};
 
-  if (nestedPathSegments.length > 1) {
-    const [firstSegment, ...restSegments] = nestedPathSegments;
-    return {
-      path: firstSegment,
-      select: selectFields.join(' '),
-      populate: buildNestedPopulateQuery(restSegments.join('.'), selectFields),
-    } as PopulateOptions;
+  sortBy.split(',').forEach((sortOption) => {
+    const [key, order] = sortOption.split(':');
+
+    if (!key || !key.trim()) {
+      throw new PaginateError(
+        'INVALID_OPTION',
+        `paginate: invalid sortBy format "${sortOption}". Expected "field:asc" or "field:desc".`,
+      );
+    }
+
+    const sortOrder: SortOrder = order === 'desc' ? -1 : 1;
+    sort[key.trim()] = sortOrder;
+  });
+
+  return sort;
+};
+
+// Validate the `limit` option, defaulting to 10
+const parseLimit = (limitOption?: number): number => {
+  const rawLimit = limitOption !== undefined ? parseInt(limitOption.toString(), 10) : 10;
+  if (limitOption !== undefined && (isNaN(rawLimit) || rawLimit < 1)) {
+    throw new PaginateError('INVALID_OPTION', `paginate: invalid limit "${limitOption}". Must be a positive integer.`);
   }
+  return rawLimit > 0 ? rawLimit : 10;
+};
 
-  return {
-    path: field,
-    select: selectFields.join(' '),
-  } as PopulateOptions;
+const COUNT_STRATEGIES: CountStrategy[] = ['exact', 'estimated', 'capped', 'none', 'facet'];
+
+// Validate the `count` and `countCap` options
+const parseCountOptions = (options: PaginateOptions): { countStrategy: CountStrategy; countCap: number } => {
+  const countStrategy = options.count || 'exact';
+  if (!COUNT_STRATEGIES.includes(countStrategy)) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: invalid count "${options.count}". Expected one of ${COUNT_STRATEGIES.join(', ')}.`,
+    );
+  }
+
+  const countCap = options.countCap !== undefined ? parseInt(options.countCap.toString(), 10) : 1000;
+  if (isNaN(countCap) || countCap < 1) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: invalid countCap "${options.countCap}". Must be a positive integer.`,
+    );
+  }
+
+  return { countStrategy, countCap };
+};
+
+// Turn the raw count (or the fetched rows for 'none') into totals for the response
+interface Totals {
+  totalResults: number;
+  totalPages: number;
+  totalIsLowerBound: boolean;
+  hasNextPage: boolean;
+}
+
+const resolveTotals = (
+  countStrategy: CountStrategy,
+  count: number,
+  received: number,
+  hasMore: boolean,
+  page: number,
+  limit: number,
+  skip: number,
+  countCap: number,
+): Totals => {
+  if (page === -1) {
+    return { totalResults: received, totalPages: 1, totalIsLowerBound: false, hasNextPage: false };
+  }
+
+  if (countStrategy === 'none') {
+    // At least one document exists past this page when the extra row came back
+    const totalResults = skip + received + (hasMore ? 1 : 0);
+    const totalPages = Math.ceil(totalResults / limit);
+    return { totalResults, totalPages, totalIsLowerBound: hasMore, hasNextPage: hasMore };
+  }
+
+  if (countStrategy === 'capped' && count > countCap) {
+    // `count` is cut at countCap + 1, which is still enough to know whether this page is the last
+    const hasNextPage = skip + received < count;
+    return { totalResults: countCap, totalPages: Math.ceil(countCap / limit), totalIsLowerBound: true, hasNextPage };
+  }
+
+  const totalPages = Math.ceil(count / limit);
+  return { totalResults: count, totalPages, totalIsLowerBound: false, hasNextPage: page < totalPages };
+};
+
+// A text score sort is used for relevance ordering of `$text` searches
+type SortSpec = Record<string, SortOrder | { $meta: 'textScore' }>;
+
+const hasTextIndex = (schema: Schema<any>): boolean =>
+  schema.indexes().some(([fields]) => Object.values(fields).includes('text'));
+
+// Build the `search` condition: `$text` when a text index exists, otherwise an `$or` of escaped regexes
+const buildSearchCondition = (
+  schema: Schema<any>,
+  options: PaginateOptions,
+): { condition: Record<string, any>; isText: boolean } | undefined => {
+  const search = typeof options.search === 'string' ? options.search.trim() : '';
+  if (!search) return undefined;
+
+  const searchMode = options.searchMode || 'auto';
+  const isText = searchMode === 'text' || (searchMode === 'auto' && hasTextIndex(schema));
+
+  if (isText) {
+    if (!hasTextIndex(schema)) {
+      throw new PaginateError('INVALID_OPTION', 'paginate: searchMode "text" requires a text index on the schema.');
+    }
+    return { condition: { $text: { $search: search } }, isText };
+  }
+
+  const searchFields = (
+    Array.isArray(options.searchFields) ? options.searchFields : (options.searchFields || '').split(',')
+  )
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+  if (searchFields.length === 0) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      'paginate: "search" requires "searchFields" when the schema has no text index.',
+    );
+  }
+
+  const pattern = escapeRegex(search);
+  return { condition: { $or: searchFields.map((field) => ({ [field]: { $regex: pattern, $options: 'i' } })) }, isText };
+};
+
+// Relevance first by default; a `textScore` key in sortBy places it explicitly
+const applyTextScoreSort = (sort: SortSpec, sortBy?: string): SortSpec => {
+  if (!sortBy) return { textScore: { $meta: 'textScore' } };
+
+  const textSort: SortSpec = {};
+  Object.entries(sort).forEach(([key, order]) => {
+    textSort[key] = key === 'textScore' ? { $meta: 'textScore' } : order;
+  });
+  return textSort;
 };
 
 // Build standard response
 const buildResult = <T>(
   results: T[],
-  totalResults: number,
-  totalPages: number,
+  totals: Totals,
   page: number,
   limit: number,
-): QueryResult<T> => ({
-  results,
-  page: page === -1 ? 1 : page || 1,
-  limit: page === -1 ? totalResults : limit,
-  totalPages,
-  totalResults,
-});
+  skip: number,
+  countStrategy: CountStrategy,
+): QueryResult<T> => {
+  const currentPage = page === -1 ? 1 : page || 1;
+  const hasPrevPage = page !== -1 && currentPage > 1;
+
+  return {
+    results,
+    page: currentPage,
+    limit: page === -1 ? totals.totalResults : limit,
+    totalPages: totals.totalPages,
+    totalResults: totals.totalResults,
+    countStrategy,
+    totalIsLowerBound: totals.totalIsLowerBound,
+    hasNextPage: totals.hasNextPage,
+    hasPrevPage,
+    nextPage: totals.hasNextPage ? currentPage + 1 : null,
+    prevPage: hasPrevPage ? currentPage - 1 : null,
+    pagingCounter: skip + 1,
+  };
+};
+
+// Rename the result envelope keys with `customLabels`
+const applyCustomLabels = (result: QueryResult<any>, labels?: QueryResultLabels): Record<string, any> => {
+  if (!labels) return result;
+  return Object.fromEntries(
+    Object.entries(result).map(([key, value]) => [labels[key as keyof QueryResult<any>] || key, value]),
+  );
+};
 
 // Safely get deep nested field value
 function getDeepValue(obj: Record<string, any>, path: string): any {
@@ -87,6 +470,13 @@ function getDeepValue(obj: Record<string, any>, path: string): any {
   }, obj);
 }
 
+// Remove a nested field, e.g. one that was only fetched to build a cursor
+function deleteDeepValue(obj: Record<string, any>, path: string): void {
+  const parts = path.split('.');
+  const parent = parts.slice(0, -1).reduce((current: any, key: string) => (current ? current[key] : undefined), obj);
+  if (parent && typeof parent === 'object') delete parent[parts[parts.length - 1]];
+}
+
 // Rename nested field with alias
 function renameNestedField(obj: Record<string, any>, sourcePath: string, targetKey: string): void {
   const parts = sourcePath.split('.');
@@ -114,40 +504,334 @@ function renameNestedField(obj: Record<string, any>, sourcePath: string, targetK
   deepRename(obj, parts);
 }
 
+// Apply the aggregation alias grammar (`path::key` renames, `base:f1,f2` lifts) and the id rewrite
+const formatAggregateDoc = (doc: any, alias?: string): any => {
+  if (typeof alias === 'string' && alias.length > 0) {
+    const aliasRules = alias
+      .split(';')
+      .map((r) => r.trim())
+      .filter(Boolean);
+    aliasRules.forEach((rule) => {
+      if (rule.includes('::')) {
+        const [sourcePath, targetKey] = rule.split('::').map((s) => s.trim());
+        renameNestedField(doc, sourcePath, targetKey);
+      } else if (rule.includes(':')) {
+        const [basePath, fieldsString] = rule.split(':').map((s) => s.trim());
+        const fields = fieldsString.split(',').map((f) => f.trim());
+        fields.forEach((field) => {
+          const fullPath = basePath ? `${basePath}.${field}` : field;
+          const value = getDeepValue(doc, fullPath);
+          if (value !== undefined) doc[field] = value;
+        });
+      }
+    });
+  }
+  if ('_id' in doc) {
+    doc.id = doc._id;
+    delete doc._id;
+  }
+  return doc;
+};
+
+// Convert a find result to a plain object with the id rewrite
+const formatFindDoc = (doc: any): any => {
+  // Safely convert to plain object to handle ID/field manipulation
+  // The error you encountered means T is strictly typed, so we need to ensure .toObject() is called if available.
+  const obj = doc.toObject ? doc.toObject() : doc;
+  obj.id = obj._id;
+  delete obj._id;
+  return obj;
+};
+
+type SerializeOptions = Pick<PaginateOptions, 'alias' | 'includeTimeStamps' | 'toJSON' | 'includeEncrypted'> &
+  Pick<PaginateDefaults, 'idField' | 'keepMongoId'>;
+
+// Serialize a result row with the toJSON plugin's rules when the schema uses it, otherwise just rewrite the id
+const serializeRow = (schema: Schema<any>, doc: any, isAggregate: boolean, options: SerializeOptions): any => {
+  if (options.toJSON === false || !hasToJSONPlugin(schema)) {
+    // Masks apply and encrypted paths stay out unless listed: skipping the toJSON rules changes the format,
+    // not what the caller may see
+    const includeEncrypted = options.includeEncrypted ?? (options.toJSON || undefined)?.includeEncrypted;
+    const hide = (ret: any) => applyMasks(schema, stripEncrypted(schema, ret, includeEncrypted));
+    const row = isAggregate ? formatAggregateDoc(hide(doc), options.alias) : hide(formatFindDoc(doc));
+    return applySchemaAlias(schema, row);
+  }
+
+  const toJSONOptions: ToJSONOptions = { includeTimeStamps: options.includeTimeStamps, ...options.toJSON };
+  // The aggregation alias grammar runs on the serialized row, after the id mapping
+  if (isAggregate) return formatAggregateDoc(applyToJSON(schema, doc, toJSONOptions), options.alias);
+
+  const findOptions: ToJSONOptions = { alias: options.alias, ...toJSONOptions };
+  return typeof doc.toJSON === 'function' ? doc.toJSON(findOptions) : applyToJSON(schema, doc, findOptions);
+};
+
+// Serialize a result row, then move its id to `idField` and put `_id` back with `keepMongoId`
+const serializeDoc = (schema: Schema<any>, doc: any, isAggregate: boolean, options: SerializeOptions): any => {
+  const mongoId = doc._id;
+  const row = serializeRow(schema, doc, isAggregate, options);
+  if (options.idField && options.idField !== 'id' && 'id' in row) {
+    row[options.idField] = row.id;
+    delete row.id;
+  }
+  if (options.keepMongoId && mongoId !== undefined) row._id = mongoId;
+  return row;
+};
+
+// Options for documents joined on the aggregation path: aliases, views, unmasked and included encrypted paths
+// name the paginated schema's paths, so they are left out
+const getJoinedToJSONOptions = (options: SerializeOptions): ToJSONOptions => ({
+  includeTimeStamps: options.includeTimeStamps,
+  ...options.toJSON,
+  alias: undefined,
+  view: undefined,
+  unmask: undefined,
+  includeEncrypted: undefined,
+});
+
+// Rewrite `fields` so private paths are never projected: drop them from an inclusion list
+// (expanding parents that contain them) or add them as exclusions
+const excludePrivateFields = (schema: Schema<any>, selectFields: string[]): string[] => {
+  const privatePaths = getPrivatePaths(schema);
+  if (privatePaths.length === 0) return selectFields;
+
+  const fields = selectFields.map((field) => field.trim()).filter(Boolean);
+  if (fields.length === 0 || fields.every((field) => field.startsWith('-'))) {
+    return [...fields, ...privatePaths.map((path) => `-${path}`)];
+  }
+
+  const schemaPaths = getSchemaPaths(schema);
+  const included = fields.flatMap((field) => {
+    if (privatePaths.some((path) => isWithinPath(field, path))) return [];
+    if (!privatePaths.some((path) => isWithinPath(path, field))) return [field];
+    // Replace the parent with its leaf paths that are not private
+    return schemaPaths.filter(
+      (path) =>
+        path.startsWith(`${field}.`) &&
+        !privatePaths.some((privatePath) => isWithinPath(path, privatePath)) &&
+        !schemaPaths.some((other) => other.startsWith(`${path}.`)),
+    );
+  });
+
+  return included.length > 0 ? included : ['_id'];
+};
+
+// Rewrite schema-level aliases in the filter, `sortBy` and `fields` to the schema paths they stand for
+const resolveAliases = <O extends { sortBy?: string; fields?: string | readonly string[] }>(
+  schema: Schema<any>,
+  filter: Record<string, any>,
+  options: O,
+): [Record<string, any>, O] => {
+  const alias = getSchemaAlias(schema);
+  if (!alias) return [filter, options];
+
+  const resolved = { ...options };
+  if (options.sortBy) resolved.sortBy = translateSortBy(alias, options.sortBy);
+  if (options.fields !== undefined) resolved.fields = translateFields(alias, parseFields(options.fields));
+  return [translateFilter(alias, filter), resolved];
+};
+
+// Resolve a toJSON view into the projection and populate selects its output needs, unless `fields` is given
+const applyView = (model: Model<any>, options: PaginateOptions): PaginateOptions => {
+  const view = getToJSONView(model.schema, options.view!);
+  if (!view) {
+    throw new PaginateError('INVALID_OPTION', `paginate: unknown view "${options.view}" of ${model.modelName}.`);
+  }
+
+  const resolved: PaginateOptions = {
+    ...options,
+    toJSON: options.toJSON === false ? false : { ...options.toJSON, view: options.view },
+  };
+  const include = (view.include || []).filter((path) => path !== 'id');
+  if (include.length === 0) {
+    if (options.fields === undefined && view.exclude) resolved.fields = view.exclude.map((path) => `-${path}`);
+    return resolved;
+  }
+
+  const nodes = options.populate ? resolvePopulate(model, options.populate) : [];
+  if (nodes.length > 0) resolved.populate = selectViewPaths(nodes, include);
+  if (options.fields === undefined) {
+    const includeTimeStamps = options.includeTimeStamps ?? view.includeTimeStamps;
+    resolved.fields = [...projectViewPaths(nodes, include), ...(includeTimeStamps ? ['createdAt', 'updatedAt'] : [])];
+  }
+  return resolved;
+};
+
+// `$project` stage excluding private paths (nested private paths under another one are covered by it)
+const buildPrivateExclusion = (schema: Schema<any>): PipelineStage.Project | undefined => {
+  const privatePaths = getPrivatePaths(schema);
+  const topPaths = privatePaths.filter((path) => !privatePaths.some((other) => other !== path && isWithinPath(path, other)));
+  if (topPaths.length === 0) return undefined;
+  return { $project: Object.fromEntries(topPaths.map((path) => [path, 0])) };
+};
+
+// Keyset pagination needs a total order, so `_id` is appended as the final tie-breaker
+const toKeysetSort = (sort: Record<string, SortOrder>): KeysetSort => {
+  const entries = Object.entries(sort).map(([key, order]) => [key, order === -1 ? -1 : 1] as [string, 1 | -1]);
+  if (!entries.some(([key]) => key === '_id')) {
+    const lastOrder = entries.length > 0 ? entries[entries.length - 1][1] : 1;
+    entries.push(['_id', lastOrder]);
+  }
+  return entries;
+};
+
+// App-wide defaults set with configurePaginate(), read on every call
+let globalDefaults: PaginateDefaults = {};
+
+const DEFAULT_KEYS: (keyof PaginateDefaults)[] = [
+  'defaultLimit',
+  'defaultSort',
+  'defaultFields',
+  'defaultPopulate',
+  'customLabels',
+  'idField',
+  'keepMongoId',
+];
+
+// Check defaults when they are set, so a bad value fails at startup instead of on a request. Only the
+// defaults that are set are kept, so plugin options do not hide configurePaginate() with `undefined`.
+const validateDefaults = (defaults: PaginateDefaults, source: string): PaginateDefaults => {
+  const { defaultLimit, defaultSort, idField } = defaults;
+  if (defaultLimit !== undefined && (!Number.isInteger(defaultLimit) || defaultLimit < 1)) {
+    throw new Error(`${source}: defaultLimit must be a positive integer, got ${defaultLimit}.`);
+  }
+  if (defaultSort !== undefined) {
+    if (typeof defaultSort !== 'string' || !defaultSort.trim()) {
+      throw new Error(`${source}: defaultSort must be a "field:asc,other:desc" string.`);
+    }
+    parseSortBy(defaultSort);
+  }
+  if (idField !== undefined && (typeof idField !== 'string' || !idField.trim() || idField.includes('.'))) {
+    throw new Error(`${source}: idField must be a top-level key, got "${idField}".`);
+  }
+  const setKeys = DEFAULT_KEYS.filter((key) => defaults[key] !== undefined);
+  return Object.fromEntries(setKeys.map((key) => [key, defaults[key]]));
+};
+
+/**
+ * Set app-wide paginate defaults, e.g. `configurePaginate({ defaultLimit: 20, idField: 'uid' })`. They apply
+ * to every paginated model, below its plugin options and the options of each call. Each call replaces the
+ * previous defaults; `configurePaginate({})` restores the built-in ones.
+ * @param defaults The defaults.
+ */
+export const configurePaginate = (defaults: PaginateDefaults = {}): void => {
+  globalDefaults = validateDefaults(defaults, 'configurePaginate');
+};
+
+// `fields` and `populate` a call leaves out, from the defaults; a view sets its own projection
+const applyDefaultShape = <O extends Pick<PaginateOptions, 'fields' | 'populate' | 'view'>>(
+  options: O,
+  defaults: PaginateDefaults,
+): O => ({
+  ...options,
+  fields: options.fields ?? (options.view ? undefined : defaults.defaultFields),
+  populate: options.populate ?? defaults.defaultPopulate,
+});
+
+// Keys of a `sortBy` string that are not paths of the schema (aliases resolved)
+const findUnknownSortPaths = (schema: Schema<any>, sortBy: string): string[] => {
+  const alias = getSchemaAlias(schema);
+  const schemaPaths = ['_id', ...getSchemaPaths(schema)];
+  return Object.keys(parseSortBy(alias ? translateSortBy(alias, sortBy) : sortBy)).filter(
+    (key) => !schemaPaths.some((path) => isWithinPath(path, key)),
+  );
+};
+
+// The configurePaginate() sort each schema was warned about, so the warning is printed once
+const warnedDefaultSorts = new WeakMap<Schema<any>, string>();
+
+// The built-in sort: newest first, by `_id` when the schema has no createdAt to sort on
+const getBuiltInSort = (schema: Schema<any>): string => (schema.path('createdAt') ? 'createdAt:desc' : '_id:desc');
+
+// An app-wide default sort may not fit every schema: it is then skipped with a warning
+const fitsGlobalSort = (schema: Schema<any>, sortBy: string): boolean => {
+  const unknownPaths = findUnknownSortPaths(schema, sortBy);
+  if (unknownPaths.length === 0) return true;
+  if (warnedDefaultSorts.get(schema) !== sortBy) {
+    warnedDefaultSorts.set(schema, sortBy);
+    console.warn(
+      `paginate: the configurePaginate() defaultSort "${sortBy}" names "${unknownPaths[0]}", ` +
+        `which is not a path of the schema; sorting by "${getBuiltInSort(schema)}" instead.`,
+    );
+  }
+  return false;
+};
+
 // ----------------------------
 // Main Pagination Plugin
 // ----------------------------
 
-export function paginate<T extends Document>(schema: Schema<T>): void {
-  schema.statics.paginate = async function (
-    this: Model<T>,
-    filter: Record<string, any> = {},
-    options: PaginateOptions = {},
-  ): Promise<QueryResult<T>> {
-    const sort: Record<string, SortOrder> = {};
-    let responseResult: QueryResult<T>;
+export function paginate<T extends Document>(schema: Schema<T>, pluginOptions: PaginatePluginOptions = {}): void {
+  const { cache } = pluginOptions;
+  const ttl = pluginOptions.ttl ?? 60;
+  const guard = pluginOptions.guard || {};
+  if (cache) registerCacheInvalidation(schema, cache);
+  if (pluginOptions.alias) registerSchemaAlias(schema, pluginOptions.alias, getSchemaPaths(schema));
 
-    // Sorting logic
-    if (options.sortBy) {
-      options.sortBy.split(',').forEach((sortOption) => {
-        const [key, order] = sortOption.split(':');
+  const pluginDefaults = validateDefaults(pluginOptions, 'paginate');
+  if (pluginDefaults.defaultSort) {
+    const [unknownPath] = findUnknownSortPaths(schema, pluginDefaults.defaultSort);
+    if (unknownPath) {
+      throw new Error(
+        `paginate: defaultSort "${pluginDefaults.defaultSort}" names "${unknownPath}", ` +
+          'which is not a path of the schema.',
+      );
+    }
+  }
+  if (globalDefaults.defaultSort) fitsGlobalSort(schema, globalDefaults.defaultSort);
 
-        if (!key || !key.trim()) {
-          throw new Error(`paginate: invalid sortBy format "${sortOption}". Expected "field:asc" or "field:desc".`);
-        }
+  const methodName = pluginOptions.methodName ?? 'paginate';
+  if (typeof methodName !== 'string' || !methodName.trim()) {
+    throw new Error('paginate: methodName must be a non-empty string.');
+  }
+  if (methodName in schema.statics || ['paginateCursor', 'exportStream'].includes(methodName)) {
+    throw new Error(`paginate: "${methodName}" is already a static of the schema.`);
+  }
 
-        const sortOrder: SortOrder = order === 'desc' ? -1 : 1;
-        sort[key.trim()] = sortOrder;
-      });
-    } else {
-      sort.createdAt = -1;
-    }
+  // Plugin options take precedence over configurePaginate(), which may change after registration
+  const getDefaults = (): PaginateDefaults => ({ ...globalDefaults, ...pluginDefaults });
+
+  // `sortBy` of calls without one, with aliases resolved like the sortBy of a call
+  const getDefaultSort = (): string => {
+    const { defaultSort } = getDefaults();
+    const sortBy =
+      defaultSort && (pluginDefaults.defaultSort || fitsGlobalSort(schema, defaultSort))
+        ? defaultSort
+        : getBuiltInSort(schema);
+    const alias = getSchemaAlias(schema);
+    return alias ? translateSortBy(alias, sortBy) : sortBy;
+  };
+
+  const paginateQuery = async function (
+    this: Model<T>,
+    filter: Record<string, any>,
+    options: PaginateOptions,
+  ): Promise<QueryResult<T>> {
+    const defaults = getDefaults();
+    options = {
+      ...applyDefaultShape(options, defaults),
+      limit: options.limit ?? defaults.defaultLimit,
+      customLabels: options.customLabels ?? defaults.customLabels,
+    };
+    [filter, options] = resolveAliases(schema, filter, options);
+    if (options.view) options = applyView(this, options);
+    if (options.near) validateNear(schema, this.modelName, options.near);
+    if (options.aggregation) checkStageOrder(options.aggregation, Boolean(options.near));
+    const distanceField = options.near ? getDistanceField(options.near) : undefined;
+    // Nearest first unless sortBy says otherwise; `_id` keeps equal distances in a stable order across pages
+    let sort: SortSpec =
+      distanceField && !options.sortBy
+        ? { [distanceField]: 1, _id: 1 }
+        : parseSortBy(options.sortBy || getDefaultSort());
+    let responseResult: QueryResult<T>;
 
     // Pagination setup
     const rawPage = options.page !== undefined ? parseInt(options.page.toString(), 10) : 1;
 
     if (options.page !== undefined && (isNaN(rawPage) || (rawPage !== -1 && rawPage < 1))) {
-      throw new Error(`paginate: invalid page "${options.page}". Must be a positive integer or -1 to fetch all records.`);
+      throw new PaginateError(
+        'INVALID_OPTION',
+        `paginate: invalid page "${options.page}". Must be a positive integer or -1 to fetch all records.`,
+      );
     }
 
     const page = rawPage;
@@ -159,128 +843,441 @@ export function paginate<T extends Document>(schema: Schema<T>): void {
       limit = 0;
       skip = 0;
     } else {
-      const rawLimit = options.limit !== undefined ? parseInt(options.limit.toString(), 10) : 10;
-      if (options.limit !== undefined && (isNaN(rawLimit) || rawLimit < 1)) {
-        throw new Error(`paginate: invalid limit "${options.limit}". Must be a positive integer.`);
-      }
-      limit = rawLimit > 0 ? rawLimit : 10;
+      limit = parseLimit(options.limit);
       skip = (page - 1) * limit;
+      checkLimit(guard, limit);
+    }
+    checkPageWindow(guard, page, skip);
+    if (options.sortBy) checkSortFields(guard, Object.keys(sort));
+
+    let selectFields = parseFields(options.fields);
+    const populate = options.populate ? resolvePopulate(this, options.populate) : [];
+
+    if (options.excludePrivate) selectFields = excludePrivateFields(schema, selectFields);
+    const privateExclusion = options.excludePrivate ? buildPrivateExclusion(schema) : undefined;
+    // An inclusion projection would drop the distance computed by $geoNear
+    if (distanceField && selectFields.some((field) => !field.startsWith('-'))) selectFields.push(distanceField);
+
+    const { countStrategy, countCap } = parseCountOptions(options);
+    // Query options read by scoping middleware (softDelete plugin), and the resource limits for MongoDB
+    const resourceOptions = resolveResourceOptions(guard, options);
+    const scopeOptions = { ...(options.includeDeleted ? { withDeleted: true } : {}), ...resourceOptions };
+
+    const search = buildSearchCondition(schema, options);
+    if (search?.isText) sort = applyTextScoreSort(sort, options.sortBy);
+    const query = search ? { $and: [filter, search.condition] } : filter;
+    if (options.near && search?.isText) {
+      throw new PaginateError('INVALID_OPTION', 'paginate: a $text search cannot be combined with "near".');
     }
 
-    const selectFields = options.fields ? options.fields.split(',') : [];
-    const populateFields = options.populate || '';
+    const isSeeded = options.shuffleSeed !== undefined && options.shuffleSeed !== null;
+    if (isSeeded && options.sample) {
+      throw new PaginateError('INVALID_OPTION', 'paginate: "shuffleSeed" and "sample" cannot be used together.');
+    }
+    if (options.sample && page === -1) {
+      throw new PaginateError('INVALID_OPTION', 'paginate: "sample" needs a limit and cannot be used with page -1.');
+    }
+    // A seeded order is derived in the pipeline, so random modes always take the aggregation path
+    if (isSeeded) sort = { [SHUFFLE_KEY]: 1, _id: 1 };
+    // $geoNear must lead the caller's stages; the count runs the same $geoNear, since countDocuments
+    // and metadata counts cannot compute distances
+    const pipeline = options.near
+      ? [buildGeoNearStage(options.near), ...(options.aggregation || [])]
+      : options.aggregation || (isSeeded || options.sample ? [] : undefined);
+    if (!pipeline) checkIndexedSort(schema, guard, this.modelName, sort, query);
+
+    // The filter and search lead the pipeline ($text is only allowed in the first $match stage, and a
+    // leading $geoNear takes them as its `query`). Aggregation stages are not cast by Mongoose, so the
+    // filter is cast through the schema.
+    const aggregation =
+      pipeline && Object.keys(query).length > 0 ? prependMatchStage(pipeline, this.find(query).cast(this)) : pipeline;
+
+    // 'none' fetches one extra row to detect whether a next page exists
+    const fetchLimit = countStrategy === 'none' ? limit + 1 : limit;
+
+    let results: any[];
+    let count = 0;
+    let usedStrategy = countStrategy;
+
+    // Count pipeline: strip any trailing $limit / $skip / $sort the caller may have added
+    // so the count reflects ALL matching documents, not a windowed subset.
+    const paginationStageKeys = new Set(['$limit', '$skip', '$sort']);
+    const countBasePipeline = aggregation
+      ? aggregation.filter((stage) => !Object.keys(stage).some((k) => paginationStageKeys.has(k)))
+      : [];
+
+    // Facets bucket the whole matched set in their own $facet, next to the page query
+    let facetsPromise: Promise<FacetResults | undefined> = Promise.resolve(undefined);
+    if (options.facets) {
+      validateFacets(schema, options.facets, Boolean(options.aggregation), options.toJSON);
+      const facetBasePipeline: PipelineStage[] = aggregation
+        ? countBasePipeline
+        : Object.keys(query).length > 0
+          ? [{ $match: this.find(query).cast(this) }]
+          : [];
+      const facets = options.facets;
+      facetsPromise = this.aggregate<Record<string, any>>([...facetBasePipeline, buildFacetStage(schema, facets)])
+        .option(scopeOptions)
+        .exec()
+        .then(([raw]) => formatFacetResults(facets, raw));
+      // Awaited after the page; a failing page query must not leave this rejection unhandled
+      facetsPromise.catch(() => undefined);
+    }
 
     // Aggregation-based pagination
-    if (options.aggregation) {
-      // Build the data pipeline: user stages → sort → (skip+limit only when paginating)
-      let docsAggregate: Aggregate<T[]> = this.aggregate(options.aggregation).sort(sort);
-      if (page !== -1) {
-        docsAggregate = docsAggregate.skip(skip).limit(limit);
+    if (aggregation) {
+      // Stages picking the page: sort → (skip+limit only when paginating), or a random sample
+      const windowStages: PipelineStage[] = [];
+      if (options.sample) {
+        windowStages.push({ $sample: { size: limit } });
+      } else {
+        if (isSeeded) windowStages.push(buildShuffleKeyStage(options.shuffleSeed!));
+        windowStages.push({ $sort: sort as PipelineStage.Sort['$sort'] });
+        if (page !== -1) windowStages.push({ $skip: skip }, { $limit: fetchLimit });
       }
 
-      // Count pipeline: strip any trailing $limit / $skip / $sort the caller may have added
-      // so the count reflects ALL matching documents, not a windowed subset.
-      const paginationStageKeys = new Set(['$limit', '$skip', '$sort']);
-      const countBasePipeline = [...options.aggregation].filter(
-        (stage) => !Object.keys(stage).some((k) => paginationStageKeys.has(k)),
-      );
-      const countPipeline = [...countBasePipeline, { $count: 'totalResults' }];
-      const countResult = await this.aggregate<{ totalResults: number }>(countPipeline);
-
-      const totalResults = countResult.length > 0 ? countResult[0].totalResults : 0;
-      const totalPages = page === -1 ? 1 : Math.ceil(totalResults / limit);
-      let results = await docsAggregate.exec();
-
-      if (options.isShuffleRecord) results = results.sort(() => Math.random() - 0.5);
-
-      const formattedResults = results.map((doc: any) => {
-        if (typeof options.alias === 'string' && options.alias.length > 0) {
-          const aliasRules = options.alias
-            .split(';')
-            .map((r) => r.trim())
-            .filter(Boolean);
-          aliasRules.forEach((rule) => {
-            if (rule.includes('::')) {
-              const [sourcePath, targetKey] = rule.split('::').map((s) => s.trim());
-              renameNestedField(doc, sourcePath, targetKey);
-            } else if (rule.includes(':')) {
-              const [basePath, fieldsString] = rule.split(':').map((s) => s.trim());
-              const fields = fieldsString.split(',').map((f) => f.trim());
-              fields.forEach((field) => {
-                const fullPath = basePath ? `${basePath}.${field}` : field;
-                const value = getDeepValue(doc, fullPath);
-                if (value !== undefined) doc[field] = value;
-              });
-            }
-          });
+      // populate and fields only shape the page, so they stay out of the count
+      const pageStages: PipelineStage[] = buildLookupStages(populate);
+      if (selectFields.length > 0) pageStages.push({ $project: buildProjection(selectFields) });
+      if (privateExclusion) pageStages.push(privateExclusion);
+      if (isSeeded) pageStages.push({ $project: { [SHUFFLE_KEY]: 0 } });
+
+      if (countStrategy === 'facet') {
+        // Single roundtrip: the same matched set feeds both the page and the count
+        const dataStages = [...windowStages, ...pageStages] as PipelineStage.FacetPipelineStage[];
+
+        const [facetResult] = await this.aggregate<{ results: any[]; totalResults: { count: number }[] }>([
+          ...countBasePipeline,
+          { $facet: { results: dataStages, totalResults: [{ $count: 'count' }] } },
+        ]).option(scopeOptions);
+        results = facetResult.results;
+        count = facetResult.totalResults.length > 0 ? facetResult.totalResults[0].count : 0;
+      } else {
+        // Build the data pipeline: user stages → window → page stages
+        const docsAggregate: Aggregate<T[]> = this.aggregate([...aggregation, ...windowStages, ...pageStages]).option(
+          scopeOptions,
+        );
+
+        // A metadata count cannot honor a pipeline, so 'estimated' counts exactly here
+        if (countStrategy === 'estimated') usedStrategy = 'exact';
+
+        let countPromise: Promise<number> = Promise.resolve(0);
+        if (countStrategy !== 'none' && page !== -1) {
+          const capStages: PipelineStage[] = countStrategy === 'capped' ? [{ $limit: countCap + 1 }] : [];
+          const countPipeline = [...countBasePipeline, ...capStages, { $count: 'totalResults' }];
+          countPromise = this.aggregate<{ totalResults: number }>(countPipeline)
+            .option(scopeOptions)
+            .exec()
+            .then((countResult) => (countResult.length > 0 ? countResult[0].totalResults : 0));
         }
-        doc.id = doc._id;
-        delete doc._id;
-        return doc;
-      });
 
-      responseResult = buildResult(formattedResults, totalResults, totalPages, page, limit);
-      return responseResult;
+        [count, results] = await Promise.all([countPromise, docsAggregate.exec()]);
+      }
+    } else if (countStrategy === 'facet') {
+      // The filter is cast through the schema since aggregation stages are not cast by Mongoose
+      const match = this.find(query).cast(this);
+      const dataStages: PipelineStage.FacetPipelineStage[] = [{ $sort: sort as PipelineStage.Sort['$sort'] }];
+      if (page !== -1) dataStages.push({ $skip: skip }, { $limit: limit });
+      if (selectFields.length > 0) dataStages.push({ $project: buildProjection(selectFields) });
+
+      const [facetResult] = await this.aggregate<{ results: any[]; totalResults: { count: number }[] }>([
+        { $match: match },
+        { $facet: { results: dataStages, totalResults: [{ $count: 'count' }] } },
+      ]).option(scopeOptions);
+      results = facetResult.results;
+      count = facetResult.totalResults.length > 0 ? facetResult.totalResults[0].count : 0;
+
+      if (populate.length > 0) {
+        results = await this.populate(results, buildPopulateOptions(populate));
+      }
+    } else {
+      // Normal query pagination
+      let countPromise: Promise<number> = Promise.resolve(0);
+      if (page !== -1) {
+        // Metadata counts cannot see the filters scoping middleware adds; includeDeleted only lifts softDelete's
+        const canEstimate =
+          Object.keys(query).length === 0 &&
+          (!isScopedSchema(schema) || (options.includeDeleted && !hasScopeKey(schema)));
+        if (countStrategy === 'estimated' && canEstimate) {
+          countPromise = this.estimatedDocumentCount(resourceOptions).exec();
+        } else if (countStrategy === 'capped') {
+          countPromise = this.countDocuments(query, { ...scopeOptions, limit: countCap + 1 }).exec();
+        } else if (countStrategy !== 'none') {
+          countPromise = this.countDocuments(query).setOptions(scopeOptions).exec();
+          if (countStrategy === 'estimated') usedStrategy = 'exact';
+        }
+      }
+
+      let docsQuery: QueryWithHelpers<T[], T> = this.find(query).setOptions(scopeOptions).sort(sort);
+
+      if (page !== -1) {
+        docsQuery = docsQuery.skip(skip).limit(fetchLimit) as QueryWithHelpers<T[], T>;
+      }
+
+      if (selectFields.length > 0) {
+        docsQuery = docsQuery.select(selectFields.join(' ')) as QueryWithHelpers<T[], T>;
+      }
+
+      if (populate.length > 0) {
+        // Type assertion added here to satisfy TypeScript when reassigning the query object
+        docsQuery = docsQuery.populate(buildPopulateOptions(populate)) as QueryWithHelpers<T[], T>;
+      }
+
+      [count, results] = await Promise.all([countPromise, docsQuery.exec()]);
     }
 
-    // Normal query pagination
-    const countPromise = this.countDocuments(filter).exec();
-    let docsQuery: QueryWithHelpers<T[], T> = this.find(filter).sort(sort);
+    const hasMore = countStrategy === 'none' && page !== -1 && results.length > limit;
+    if (hasMore) results = results.slice(0, limit);
 
-    if (page !== -1) {
-      docsQuery = docsQuery.skip(skip).limit(limit) as QueryWithHelpers<T[], T>;
+    const totals = resolveTotals(usedStrategy, count, results.length, hasMore, page, limit, skip, countCap);
+    // A sample is a single draw, there is no next page to ask for
+    if (options.sample) totals.hasNextPage = false;
+
+    if (options.isShuffleRecord) results = shuffleArray(results);
+
+    // Joined documents follow their own schema's toJSON rules, as populated documents do on the find path
+    if (aggregation && populate.length > 0 && options.toJSON !== false) {
+      const joinedOptions = getJoinedToJSONOptions(options);
+      results.forEach((row) => serializePopulated(populate, row, joinedOptions));
     }
 
-    if (selectFields.length > 0) {
-      docsQuery = docsQuery.select(selectFields.join(' ')) as QueryWithHelpers<T[], T>;
+    const serializeOptions = { ...options, idField: defaults.idField, keepMongoId: defaults.keepMongoId };
+    const formattedResults = results.map((doc) => {
+      const distance = distanceField ? doc[distanceField] : undefined;
+      const row = serializeDoc(schema, doc, Boolean(aggregation), serializeOptions);
+      // A view's include list keeps schema paths only, so the distance is put back
+      if (distance !== undefined && options.view && options.toJSON !== false) row[distanceField!] = distance;
+      return row;
+    });
+
+    responseResult = buildResult(formattedResults, totals, page, limit, skip, usedStrategy);
+    const facetResults = await facetsPromise;
+    if (facetResults) responseResult.facets = facetResults;
+    return applyCustomLabels(responseResult, options.customLabels) as QueryResult<T>;
+  };
+
+  schema.statics[methodName] = async function (
+    this: Model<T>,
+    filter: Record<string, any> = {},
+    options: PaginateOptions = {},
+  ): Promise<QueryResult<T>> {
+    // Random orders are drawn on every call, so they are never cached
+    if (!cache || options.cache === false || options.sample || options.isShuffleRecord) {
+      return paginateQuery.call(this, filter, options);
     }
 
-    if (populateFields.length > 0) {
-      populateFields.split(';').forEach((populateOptionRaw) => {
-        const populateOption = populateOptionRaw.trim();
-        if (!populateOption) return;
-
-        const [path, fields] = populateOption.split(':');
-        const select = fields ? fields.split(',').map((f) => f.trim()) : ['_id'];
-
-        if (path.includes('.')) {
-          const [parentField, ...rest] = path.split('.');
-          const childPath = rest.join('.');
-
-          // Type assertion added here to satisfy TypeScript when reassigning the query object
-          docsQuery = docsQuery.populate({
-            path: parentField,
-            select: select.join(' '),
-            populate: buildNestedPopulateQuery(childPath, select),
-          }) as QueryWithHelpers<T[], T>;
-        } else {
-          // Type assertion added here to satisfy TypeScript when reassigning the query object
-          docsQuery = docsQuery.populate({
-            path,
-            select: select.join(' '),
-          }) as QueryWithHelpers<T[], T>;
-        }
-      });
+    const { cache: _cache, cacheKey, ...keyOptions } = options;
+    const generation = await getCacheGeneration(cache, this);
+    const key = buildCacheKey(this, schema, generation, { filter, options: keyOptions }, cacheKey);
+    if (!key) return paginateQuery.call(this, filter, options);
+
+    const cached = await readCache<QueryResult<T>>(cache, key);
+    if (cached) return cached;
+
+    const result = await paginateQuery.call(this, filter, options);
+    await writeCache(cache, key, result, ttl);
+    return result;
+  };
+
+  // ----------------------------
+  // Cursor (keyset) Pagination
+  // ----------------------------
+
+  schema.statics.paginateCursor = async function (
+    this: Model<T>,
+    filter: Record<string, any> = {},
+    options: CursorPaginateOptions = {},
+  ): Promise<CursorQueryResult<T>> {
+    const defaults = getDefaults();
+    options = { ...applyDefaultShape(options, defaults), limit: options.limit ?? defaults.defaultLimit };
+    [filter, options] = resolveAliases(schema, filter, options);
+    if (options.after && options.before) {
+      throw new PaginateError('INVALID_OPTION', 'paginateCursor: "after" and "before" cannot be used together.');
     }
 
-    const [totalResults, resultsRaw] = await Promise.all([countPromise, docsQuery.exec()]);
-    let results = resultsRaw;
+    const keysetSort = toKeysetSort(parseSortBy(options.sortBy || getDefaultSort()));
+    const keys = keysetSort.map(([key]) => key);
+    const limit = parseLimit(options.limit);
+    checkLimit(guard, limit);
+    if (options.sortBy) checkSortFields(guard, keys);
+    const cursorOptions = {
+      ...(options.includeDeleted ? { withDeleted: true } : {}),
+      ...resolveResourceOptions(guard, options),
+    };
+    const isBackward = Boolean(options.before);
+    const cursor = options.after || options.before;
 
-    const totalPages = page === -1 ? 1 : Math.ceil(totalResults / limit);
+    let boundary: Record<string, any> | undefined;
+    if (cursor) {
+      const payload = decodeCursor(cursor, options.cursorSecret);
+      if (payload.keys.join(',') !== keys.join(',')) {
+        throw new PaginateError(
+          'INVALID_CURSOR',
+          `paginateCursor: cursor was created for sortBy "${payload.keys.join(',')}" and cannot be reused.`,
+        );
+      }
+      boundary = buildKeysetFilter(keysetSort, payload.values, isBackward ? 'before' : 'after');
+    }
 
-    if (options.isShuffleRecord) results = results.sort(() => Math.random() - 0.5);
+    // Walking backwards reads the reversed order and flips the page afterwards
+    const querySort: Record<string, SortOrder> = {};
+    keysetSort.forEach(([key, order]) => {
+      querySort[key] = isBackward ? ((order * -1) as SortOrder) : order;
+    });
 
-    const formattedResults = results.map((doc) => {
-      // Safely convert to plain object to handle ID/field manipulation
-      // The error you encountered means T is strictly typed, so we need to ensure .toObject() is called if available.
-      const obj = doc.toObject ? doc.toObject() : doc;
-      obj.id = obj._id;
-      delete obj._id;
-      return obj;
+    // Sort keys must be fetched to build the cursors, even when not requested in `fields`
+    let selectFields = parseFields(options.fields);
+    if (options.excludePrivate) selectFields = excludePrivateFields(schema, selectFields);
+    const isInclusion = selectFields.some((field) => !field.startsWith('-'));
+    const extraFields = isInclusion ? keys.filter((key) => !selectFields.includes(key)) : [];
+    const projectFields = [...selectFields, ...extraFields];
+    const populate = options.populate ? resolvePopulate(this, options.populate) : [];
+
+    let rows: any[];
+
+    if (options.aggregation) {
+      // Aggregation stages are not cast by Mongoose, so the filter is cast through the schema
+      const pipeline: PipelineStage[] =
+        Object.keys(filter).length > 0
+          ? prependMatchStage(options.aggregation, this.find(filter).cast(this))
+          : [...options.aggregation];
+      if (boundary) pipeline.push({ $match: boundary });
+      pipeline.push({ $sort: querySort as Record<string, 1 | -1> }, { $limit: limit + 1 });
+      pipeline.push(...buildLookupStages(populate));
+      if (projectFields.length > 0) pipeline.push({ $project: buildProjection(projectFields) });
+      const privateExclusion = options.excludePrivate ? buildPrivateExclusion(schema) : undefined;
+      if (privateExclusion) pipeline.push(privateExclusion);
+      rows = await this.aggregate(pipeline).option(cursorOptions).exec();
+      if (populate.length > 0 && options.toJSON !== false) {
+        const joinedOptions = getJoinedToJSONOptions(options);
+        rows.forEach((row) => serializePopulated(populate, row, joinedOptions));
+      }
+    } else {
+      checkIndexedSort(schema, guard, this.modelName, querySort, filter);
+      const query = boundary ? { $and: [filter, boundary] } : filter;
+      let docsQuery: QueryWithHelpers<T[], T> = this.find(query)
+        .setOptions(cursorOptions)
+        .sort(querySort)
+        .limit(limit + 1) as QueryWithHelpers<T[], T>;
+      if (projectFields.length > 0) {
+        docsQuery = docsQuery.select(projectFields.join(' ')) as QueryWithHelpers<T[], T>;
+      }
+
+      if (populate.length > 0) {
+        docsQuery = docsQuery.populate(buildPopulateOptions(populate)) as QueryWithHelpers<T[], T>;
+      }
+
+      rows = await docsQuery.exec();
+    }
+
+    const hasMore = rows.length > limit;
+    if (hasMore) rows = rows.slice(0, limit);
+    if (isBackward) rows.reverse();
+
+    const hasNextPage = isBackward ? true : hasMore;
+    const hasPrevPage = isBackward ? hasMore : Boolean(options.after);
+
+    const toCursor = (row: Record<string, any>): string => {
+      const plain = typeof row.toObject === 'function' ? row.toObject() : row;
+      return encodeCursor({ keys, values: keys.map((key) => getDeepValue(plain, key) ?? null) }, options.cursorSecret);
+    };
+
+    const nextCursor = hasNextPage && rows.length > 0 ? toCursor(rows[rows.length - 1]) : null;
+    const prevCursor = hasPrevPage && rows.length > 0 ? toCursor(rows[0]) : null;
+
+    const serializeOptions = { ...options, idField: defaults.idField, keepMongoId: defaults.keepMongoId };
+    const results = rows.map((row) => {
+      const serialized = serializeDoc(schema, row, Boolean(options.aggregation), serializeOptions);
+      extraFields.forEach((key) => {
+        if (key !== '_id') deleteDeepValue(serialized, key);
+      });
+      return serialized;
     });
 
-    responseResult = buildResult(formattedResults, totalResults, totalPages, page, limit);
-    return responseResult;
+    return {
+      results,
+      limit,
+      nextCursor,
+      prevCursor,
+      hasNextPage,
+      hasPrevPage,
+    };
+  };
+
+  // ----------------------------
+  // Streaming Export
+  // ----------------------------
+
+  schema.statics.exportStream = function (
+    this: Model<T>,
+    filter: Record<string, any> = {},
+    options: ExportQueryOptions = {},
+    streamOptions: ExportStreamOptions = {},
+  ): Readable {
+    const defaults = getDefaults();
+    options = applyDefaultShape(options, defaults);
+    [filter, options] = resolveAliases(schema, filter, options);
+    let sort: SortSpec = parseSortBy(options.sortBy || getDefaultSort());
+    if (options.sortBy) checkSortFields(guard, Object.keys(sort));
+    let selectFields = parseFields(options.fields);
+    const populate = options.populate ? resolvePopulate(this, options.populate) : [];
+    if (options.excludePrivate) selectFields = excludePrivateFields(schema, selectFields);
+    const privateExclusion = options.excludePrivate ? buildPrivateExclusion(schema) : undefined;
+    // Exports run as long as the client reads, so only allowDiskUse applies (no maxTimeMS)
+    const allowDiskUse = options.allowDiskUse ?? guard.allowDiskUse;
+    const scopeOptions = {
+      ...(options.includeDeleted ? { withDeleted: true } : {}),
+      ...(allowDiskUse !== undefined ? { allowDiskUse } : {}),
+    };
+    const batchSize = streamOptions.batchSize || 1000;
+
+    const search = buildSearchCondition(schema, options);
+    if (search?.isText) sort = applyTextScoreSort(sort, options.sortBy);
+    const query = search ? { $and: [filter, search.condition] } : filter;
+    if (!options.aggregation) checkIndexedSort(schema, guard, this.modelName, sort, query);
+
+    // Opened on the first read, so nothing runs for a stream that is never consumed
+    const openCursor = (): AsyncIterable<any> & { close(): Promise<unknown> } => {
+      if (options.aggregation) {
+        const pipeline: PipelineStage[] =
+          Object.keys(query).length > 0
+            ? prependMatchStage(options.aggregation, this.find(query).cast(this))
+            : [...options.aggregation];
+        pipeline.push({ $sort: sort as PipelineStage.Sort['$sort'] }, ...buildLookupStages(populate));
+        if (selectFields.length > 0) pipeline.push({ $project: buildProjection(selectFields) });
+        if (privateExclusion) pipeline.push(privateExclusion);
+        return this.aggregate(pipeline).option(scopeOptions).cursor({ batchSize });
+      } else {
+        let docsQuery: QueryWithHelpers<T[], T> = this.find(query).setOptions(scopeOptions).sort(sort);
+        if (selectFields.length > 0) docsQuery = docsQuery.select(selectFields.join(' ')) as QueryWithHelpers<T[], T>;
+        if (populate.length > 0) {
+          docsQuery = docsQuery.populate(buildPopulateOptions(populate)) as QueryWithHelpers<T[], T>;
+        }
+        return docsQuery.cursor({ batchSize });
+      }
+    };
+
+    const isAggregate = Boolean(options.aggregation);
+    const joinedOptions = getJoinedToJSONOptions(options);
+    const serializeOptions = { ...options, idField: defaults.idField, keepMongoId: defaults.keepMongoId };
+
+    // Rows are serialized one at a time as the stream is read. The cursor is closed when the
+    // stream ends or is destroyed.
+    async function* serializeRows() {
+      const cursor = openCursor();
+      try {
+        for await (const doc of cursor) {
+          if (isAggregate && populate.length > 0 && options.toJSON !== false) {
+            serializePopulated(populate, doc, joinedOptions);
+          }
+          yield serializeDoc(schema, doc, isAggregate, serializeOptions);
+        }
+      } finally {
+        await cursor.close();
+      }
+    }
+
+    return createExportStream(serializeRows(), streamOptions);
   };
 }
 
@@ -0,0 +1,311 @@
+import { Model, PipelineStage, PopulateOptions, SortOrder } from 'mongoose';
+import { PaginateError } from './errors';
+import { ToJSONOptions, applyToJSON, hasToJSONPlugin } from './toJSON';
+import { buildProjection, getScopeFilter } from './utils';
+
+/**
+ * Structured form of the `populate` option. Every level has its own select, match, sort and limit.
+ * `options.limit` applies per populated document (Mongoose `perDocumentLimit`).
+ */
+export interface PopulateSpec {
+  path: string;
+  select?: string | string[];
+  match?: Record<string, any>;
+  options?: {
+    sort?: string | Record<string, SortOrder>;
+    limit?: number;
+  };
+  populate?: PopulateSpec[];
+}
+
+// Split on `separator` outside parentheses, so `author(name,profile.city).company` keeps its select list
+const splitOutsideParens = (value: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+};
+
+const toFieldList = (fields: string): string[] =>
+  fields
+    .split(',')
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+/**
+ * Parse the populate string grammar into PopulateSpecs:
+ * - `author:name,email;tags` selects `name email` on every level of `author` and `_id` on `tags`
+ * - `author(name,company).company(name,country)` selects per level; levels without
+ *   parentheses fall back to the list after `:`
+ */
+export const parsePopulateString = (populate: string): PopulateSpec[] =>
+  populate
+    .split(';')
+    .map((populateOption) => populateOption.trim())
+    .filter(Boolean)
+    .map((populateOption) => {
+      const [pathPart, sharedFields, ...rest] = splitOutsideParens(populateOption, ':');
+      const segments = splitOutsideParens(pathPart, '.').map((segment) => segment.trim());
+
+      if (rest.length > 0 || segments.some((segment) => !/^[^()]+(\([^()]*\))?$/.test(segment))) {
+        throw new PaginateError('INVALID_OPTION', `paginate: invalid populate format "${populateOption}".`);
+      }
+
+      const sharedSelect = sharedFields ? toFieldList(sharedFields) : ['_id'];
+      const specs = segments.map((segment): PopulateSpec => {
+        const [, path, fields] = segment.match(/^([^(]+)(?:\((.*)\))?$/)!;
+        return { path: path.trim(), select: fields !== undefined ? toFieldList(fields) : sharedSelect };
+      });
+
+      // Nest each level into the previous one
+      return specs.reduceRight((child, spec) => ({ ...spec, populate: [child] }));
+    });
+
+// A populate level checked against the schema refs
+export interface PopulateNode {
+  spec: PopulateSpec;
+  path: string;
+  fullPath: string;
+  // Referenced model, or null when it is only known per document (refPath, ref functions)
+  model: Model<any> | null;
+  isArray: boolean;
+  localField: string;
+  foreignField: string;
+  // Selected fields, including the paths populated below
+  select?: string[];
+  children: PopulateNode[];
+}
+
+type RefTarget = Pick<PopulateNode, 'model' | 'isArray' | 'localField' | 'foreignField'>;
+
+const resolveRefModel = (model: Model<any>, ref: any, fullPath: string): Model<any> | null => {
+  if (typeof ref === 'function') return ref.schema ? ref : null;
+
+  const refModel = model.db.models[ref];
+  if (!refModel) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: cannot populate "${fullPath}": model "${ref}" is not registered.`,
+    );
+  }
+  return refModel;
+};
+
+// Resolve what a path references: a `ref`/`refPath` path or a virtual populate
+const resolveRef = (model: Model<any>, path: string, fullPath: string): RefTarget => {
+  const schemaType: any = model.schema.path(path);
+  const virtualOptions = !schemaType && (model.schema.virtualpath(path) as any)?.options;
+
+  if (virtualOptions?.ref) {
+    return {
+      model: resolveRefModel(model, virtualOptions.ref, fullPath),
+      isArray: !virtualOptions.justOne,
+      localField: virtualOptions.localField,
+      foreignField: virtualOptions.foreignField,
+    };
+  }
+  if (!schemaType) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: cannot populate "${fullPath}": "${path}" is not a path of ${model.modelName}.`,
+    );
+  }
+
+  const pathOptions = schemaType.options || {};
+  const ref = pathOptions.ref ?? schemaType.caster?.options?.ref ?? schemaType.$embeddedSchemaType?.options?.ref;
+  const refPath = pathOptions.refPath ?? schemaType.caster?.options?.refPath;
+
+  if (ref === undefined && refPath === undefined) {
+    throw new PaginateError(
+      'INVALID_OPTION',
+      `paginate: cannot populate "${fullPath}": "${path}" of ${model.modelName} is not a reference.`,
+    );
+  }
+
+  return {
+    model: ref === undefined ? null : resolveRefModel(model, ref, fullPath),
+    isArray: schemaType.instance === 'Array',
+    localField: path,
+    foreignField: '_id',
+  };
+};
+
+const toSelectList = (select?: string | string[]): string[] | undefined => {
+  if (select === undefined) return undefined;
+  return Array.isArray(select) ? select : select.split(/[\s,]+/).filter(Boolean);
+};
+
+const resolveNode = (model: Model<any> | null, spec: PopulateSpec, parentPath = ''): PopulateNode => {
+  if (!spec || typeof spec.path !== 'string' || !spec.path.trim()) {
+    throw new PaginateError('INVALID_OPTION', 'paginate: every populate entry needs a "path".');
+  }
+
+  const fullPath = parentPath ? `${parentPath}.${spec.path}` : spec.path;
+  // Below a per-document ref the schema is unknown, so deeper levels are passed through unchecked
+  const target: RefTarget = model
+    ? resolveRef(model, spec.path, fullPath)
+    : { model: null, isArray: false, localField: spec.path, foreignField: '_id' };
+  const children = (spec.populate || []).map((child) => resolveNode(target.model, child, fullPath));
+
+  let select = toSelectList(spec.select);
+  if (select && select.some((field) => !field.startsWith('-'))) {
+    // An inclusion list must keep the paths populated below it
+    const missing = children.map((child) => child.path).filter((path) => !select!.includes(path));
+    select = [...select, ...missing];
+  }
+
+  return { spec, path: spec.path, fullPath, ...target, select, children };
+};
+
+/**
+ * Resolve the string grammar or PopulateSpecs against the schema refs, so a typo fails with
+ * a clear error instead of an empty field.
+ */
+export const resolvePopulate = (model: Model<any>, populate: string | PopulateSpec[]): PopulateNode[] => {
+  const specs = typeof populate === 'string' ? parsePopulateString(populate) : populate;
+  if (!Array.isArray(specs)) {
+    throw new PaginateError('INVALID_OPTION', 'paginate: "populate" must be a string or an array of populate options.');
+  }
+  return specs.map((spec) => resolveNode(model, spec));
+};
+
+// Mongoose populate options for the find path
+export const buildPopulateOptions = (nodes: PopulateNode[]): PopulateOptions[] =>
+  nodes.map((node) => {
+    const populateOptions: PopulateOptions = { path: node.path };
+    if (node.select) populateOptions.select = node.select.join(' ');
+    if (node.spec.match) populateOptions.match = node.spec.match;
+    if (node.spec.options?.sort) populateOptions.options = { sort: node.spec.options.sort };
+    if (node.spec.options?.limit !== undefined) populateOptions.perDocumentLimit = node.spec.options.limit;
+    if (node.children.length > 0) populateOptions.populate = buildPopulateOptions(node.children);
+    return populateOptions;
+  });
+
+// Paths to select for the given view paths: a path below a populated level selects the level's local field
+export const projectViewPaths = (nodes: PopulateNode[], paths: string[]): string[] =>
+  Array.from(
+    new Set(paths.map((path) => nodes.find((node) => path.startsWith(`${node.path}.`))?.localField ?? path)),
+  );
+
+/**
+ * Narrow each populate level to the paths a toJSON view keeps below it, e.g. `author.name` selects `name`
+ * on `author`. Levels the view keeps whole, or does not reach into, are left as they are.
+ */
+export const selectViewPaths = (nodes: PopulateNode[], paths: string[]): PopulateSpec[] =>
+  nodes.map((node) => {
+    const below = paths
+      .filter((path) => path.startsWith(`${node.path}.`))
+      .map((path) => path.slice(node.path.length + 1))
+      .filter((path) => path !== 'id');
+    if (paths.includes(node.path) || below.length === 0) return node.spec;
+
+    const spec: PopulateSpec = { ...node.spec, select: projectViewPaths(node.children, below) };
+    if (node.children.length > 0) spec.populate = selectViewPaths(node.children, below);
+    return spec;
+  });
+
+const toSortStage = (sort: string | Record<string, SortOrder>): Record<string, 1 | -1> => {
+  const entries: [string, unknown][] =
+    typeof sort === 'string'
+      ? sort
+          .split(/\s+/)
+          .filter(Boolean)
+          .map((key) => (key.startsWith('-') ? [key.slice(1), -1] : [key, 1]))
+      : Object.entries(sort);
+  return Object.fromEntries(
+    entries.map(([key, order]) => [key, order === -1 || order === 'desc' || order === 'descending' ? -1 : 1]),
+  );
+};
+
+// Holds the joined documents of an array of refs while they are put back in the order of the refs
+const JOINED_FIELD = '__joined';
+
+/**
+ * `$lookup` (and `$unwind` for single refs) stages equivalent to the populate tree, for the
+ * aggregation path. Each level's scope, match, sort, limit and select run inside its lookup pipeline.
+ * The join uses `localField`/`foreignField` next to the pipeline (MongoDB 5.0+), so it can use the
+ * index of the foreign field.
+ */
+export const buildLookupStages = (nodes: PopulateNode[]): PipelineStage[] =>
+  nodes.flatMap((node) => {
+    const { model, spec } = node;
+    if (!model) {
+      throw new PaginateError(
+        'INVALID_OPTION',
+        `paginate: cannot populate "${node.fullPath}" on the aggregation path because its model is only known per document.`,
+      );
+    }
+
+    const pipeline: PipelineStage.Lookup['$lookup']['pipeline'] = [];
+    // The referenced model's middleware does not see the lookup, so its softDelete and tenant scope are added here
+    const scope = getScopeFilter(model);
+    if (scope) pipeline.push({ $match: scope });
+    // Aggregation stages are not cast by Mongoose
+    if (spec.match) pipeline.push({ $match: model.find(spec.match).cast(model) });
+    if (spec.options?.sort) pipeline.push({ $sort: toSortStage(spec.options.sort) });
+    if (spec.options?.limit !== undefined) pipeline.push({ $limit: spec.options.limit });
+    pipeline.push(...(buildLookupStages(node.children) as typeof pipeline));
+    if (node.select) pipeline.push({ $project: buildProjection(node.select) });
+
+    // $lookup returns documents in collection order; like populate, arrays of refs keep their own order
+    // unless a sort is given
+    const keepsRefOrder =
+      node.isArray && node.foreignField === '_id' && !spec.options?.sort && !node.select?.includes('-_id');
+    const lookup = {
+      from: model.collection.collectionName,
+      localField: node.localField,
+      foreignField: node.foreignField,
+      pipeline,
+      as: keepsRefOrder ? JOINED_FIELD : node.path,
+    };
+    const stages: PipelineStage[] = [{ $lookup: lookup }];
+    if (keepsRefOrder) {
+      const matches = { $filter: { input: `$${JOINED_FIELD}`, as: 'joined', cond: { $eq: ['$$joined._id', '$$id'] } } };
+      const findJoined = { $arrayElemAt: [matches, 0] };
+      const ordered = { $map: { input: { $ifNull: [`$${node.localField}`, []] }, as: 'id', in: findJoined } };
+      stages.push(
+        { $addFields: { [node.path]: { $filter: { input: ordered, cond: { $ne: ['$$this', null] } } } } },
+        { $unset: JOINED_FIELD },
+      );
+    }
+    if (!node.isArray) stages.push({ $unwind: { path: `$${node.path}`, preserveNullAndEmptyArrays: true } });
+    return stages;
+  });
+
+const mapPath = (obj: any, path: string, fn: (value: any) => any): void => {
+  const [head, ...rest] = path.split('.');
+  if (!obj || typeof obj !== 'object' || obj[head] === undefined || obj[head] === null) return;
+
+  if (rest.length === 0) {
+    obj[head] = Array.isArray(obj[head]) ? obj[head].map(fn) : fn(obj[head]);
+  } else {
+    (Array.isArray(obj[head]) ? obj[head] : [obj[head]]).forEach((item: any) => mapPath(item, rest.join('.'), fn));
+  }
+};
+
+/**
+ * Apply each referenced schema's toJSON rules to documents joined by buildLookupStages,
+ * as `doc.toJSON()` does for populated documents on the find path.
+ */
+export const serializePopulated = (nodes: PopulateNode[], row: Record<string, any>, options: ToJSONOptions): void => {
+  nodes.forEach((node) => {
+    mapPath(row, node.path, (value) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+      serializePopulated(node.children, value, options);
+      return node.model && hasToJSONPlugin(node.model.schema) ? applyToJSON(node.model.schema, value, options) : value;
+    });
+  });
+};
@@ -0,0 +1,206 @@
+import { Document, PipelineStage, Types } from 'mongoose';
+
+// Type-level mirror of the runtime `fields`, `alias` and `_id → id` handling, so paginate results are typed
+// by the shape they actually have. Only literal options are inferred; wide `string` options keep `T`.
+
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | Buffer
+  | Types.ObjectId
+  | Types.Decimal128
+  | String
+  | Number
+  | Boolean
+  | Function;
+
+// Refs (`ObjectId | IUser`) and scalars end a path
+type IsLeaf<V> = Types.ObjectId extends V ? true : [NonNullable<V>] extends [Leaf] ? true : false;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type Trim<S extends string> = S extends ` ${infer R}` ? Trim<R> : S extends `${infer R} ` ? Trim<R> : S;
+
+type Split<S extends string, D extends string> = S extends `${infer Head}${D}${infer Tail}`
+  ? Trim<Head> | Split<Tail, D>
+  : Trim<S>;
+
+// Document data without Mongoose's document members and methods (`_id` stays)
+export type LeanDoc<T> = T extends Document
+  ? {
+      [K in keyof T as K extends Exclude<keyof Document, '_id'>
+        ? never
+        : NonNullable<T[K]> extends Function
+          ? never
+          : K]: T[K];
+    }
+  : T;
+
+type Depths = [never, 0, 1, 2, 3];
+
+type PathsOf<K extends string, V, Depth extends number> =
+  IsLeaf<V> extends true
+    ? K
+    : NonNullable<V> extends readonly (infer E)[]
+      ? IsLeaf<E> extends true
+        ? K
+        : K | `${K}.${SchemaPath<E, Depths[Depth]>}`
+      : K | `${K}.${SchemaPath<NonNullable<V>, Depths[Depth]>}`;
+
+/**
+ * Dotted paths of a document type, e.g. `name`, `profile.city`, `addresses.street`.
+ * Refs and arrays of scalars are leaves; nesting stops after four levels.
+ */
+export type SchemaPath<T, Depth extends number = 4> = [Depth] extends [never]
+  ? never
+  : { [K in keyof LeanDoc<T> & string]: PathsOf<K, LeanDoc<T>[K], Depth> }[keyof LeanDoc<T> & string];
+
+// `fields` as a union of its entries: `'name,score'` and `['name', 'score']` both give `'name' | 'score'`
+type FieldEntries<F> = F extends string ? Exclude<Split<F, ','>, ''> : F extends readonly string[] ? F[number] : never;
+
+type Head<P> = P extends `${infer H}.${string}` ? H : P;
+type Rest<P, K extends string> = P extends `${K}.${infer R}` ? R : never;
+
+// Keep the selected paths, descending into nested objects and subdocument arrays
+type PickPaths<D, P extends string> = {
+  [K in keyof D as K extends Head<P> ? K : never]: K extends P
+    ? D[K]
+    : K extends string
+      ? PickNested<D[K], Rest<P, K>>
+      : never;
+};
+
+type PickNested<V, P extends string> = V extends readonly (infer E)[]
+  ? PickPaths<E, P>[]
+  : V extends null | undefined
+    ? V
+    : PickPaths<V, P>;
+
+// Drop the excluded paths (`-password`, `-profile.age`)
+type OmitPaths<D, P extends string> = {
+  [K in keyof D as K extends P ? never : K]: K extends Head<P> & string ? OmitNested<D[K], Rest<P, K>> : D[K];
+};
+
+type OmitNested<V, P extends string> = V extends readonly (infer E)[]
+  ? OmitPaths<E, P>[]
+  : V extends null | undefined
+    ? V
+    : OmitPaths<V, P>;
+
+type Excluded<P> = P extends `-${infer R}` ? R : never;
+
+// Mongo projections are either inclusions (plus `-_id`) or exclusions
+type Project<D, P extends string> = [Exclude<P, `-${string}`>] extends [never]
+  ? OmitPaths<D, Excluded<P>>
+  : OmitPaths<PickPaths<D, Exclude<P, `-${string}`> | '_id'>, Excluded<P>>;
+
+type AliasFrom<E> = E extends `${infer From}:${string}` ? Trim<From> : never;
+type AliasTo<E> = E extends `${string}:${infer To}` ? Trim<To> : never;
+
+// `'from:to;other:renamed'`, top-level keys only
+type AliasMap<A> = [A] extends [never]
+  ? {}
+  : A extends string
+    ? { [E in Split<A, ';'> as AliasFrom<E>]: AliasTo<E> }
+    : {};
+
+type Rename<D, M> = { [K in keyof D as K extends keyof M ? (M[K] extends string ? M[K] : K) : K]: D[K] };
+
+// Results are plain objects with `id` instead of `_id`. Inference assumes the schema uses the toJSON plugin, which
+// makes `id` a string and drops `__v`, and the default `idField` / `keepMongoId`; with `toJSON: false` the row
+// keeps `__v` and `id` holds the `_id` value
+type Serialized<D, O> = O extends { toJSON: false }
+  ? Omit<D, '_id'> & { id: D extends { _id: infer I } ? I : Types.ObjectId }
+  : Omit<D, '_id' | '__v'> & { id: string };
+
+// A string literal or a tuple of literals; wide `string` / `string[]` options cannot be inferred
+type IsLiteral<V> = [V] extends [never]
+  ? false
+  : string extends V
+    ? false
+    : V extends readonly string[]
+      ? string extends V[number]
+        ? false
+        : true
+      : true;
+
+type FieldsOf<O> = O extends { fields: infer F } ? F : never;
+type AliasOf<O> = O extends { alias: infer A } ? A : never;
+
+// The field `near` adds to each row: `distanceField` when it is a literal, `distance` otherwise
+type DistanceFieldOf<O> = O extends { near: infer N }
+  ? N extends { distanceField: infer F extends string }
+    ? string extends F
+      ? 'distance'
+      : F
+    : 'distance'
+  : never;
+
+type WithDistance<D, O> = [DistanceFieldOf<O>] extends [never] ? D : D & { [K in DistanceFieldOf<O>]: number };
+
+type ProjectedShape<T, O> = O extends { aggregation: readonly PipelineStage[] }
+  ? T
+  : IsLiteral<FieldsOf<O>> extends true
+    ? Simplify<Rename<Serialized<Project<LeanDoc<T>, FieldEntries<FieldsOf<O>>>, O>, AliasMap<AliasOf<O>>>>
+    : IsLiteral<AliasOf<O>> extends true
+      ? Simplify<Rename<Serialized<LeanDoc<T>, O>, AliasMap<AliasOf<O>>>>
+      : T;
+
+/**
+ * The result row type for paginate options `O` on model data `T`:
+ * - `aggregation` in the options: `T` (pass the row type as `paginate<Row>(...)`, the pipeline decides the shape)
+ * - schema-level aliases `A`: `T`, since every row is renamed by them
+ * - literal `fields` and/or `alias`: the projected, renamed plain object with `id` (a string, or the `_id` value
+ *   with `toJSON: false`)
+ * - anything else: `T`
+ * With `near`, the row also has its distance field.
+ */
+export type ProjectedDoc<T, O, A extends string = never> = WithDistance<
+  [A] extends [never] ? ProjectedShape<T, O> : T,
+  O
+>;
+
+// Rejects a literal with a readable reason in the compiler message
+type Invalid<Reason extends string> = { [K in Reason]: never };
+
+type SortEntry<T, E extends string> = SchemaPath<T> | 'textScore' | 'id' | E;
+type SortPart<T, E extends string> = SortEntry<T, E> | `${SortEntry<T, E>}:${'asc' | 'desc'}`;
+
+// `sortBy` must name known paths (or the distance of `near` and aliases); wide strings and pipeline-computed fields
+// (aggregation) are not checked
+type CheckSortBy<T, S, E extends string = never> = string extends S
+  ? S
+  : S extends string
+    ? [Exclude<Split<S, ','>, SortPart<T, E>>] extends [never]
+      ? S
+      : Invalid<`unknown sortBy path "${Exclude<Split<S, ','>, SortPart<T, E>>}"`>
+    : S;
+
+type FieldPath<T, A extends string> = SchemaPath<T> | A | `-${SchemaPath<T> | A}`;
+
+type CheckFields<T, F, A extends string = never> = F extends readonly string[]
+  ? readonly FieldPath<T, A>[]
+  : string extends F
+    ? F
+    : F extends string
+      ? [Exclude<FieldEntries<F>, FieldPath<T, A>>] extends [never]
+        ? F
+        : Invalid<`unknown fields path "${Exclude<FieldEntries<F>, FieldPath<T, A>> & string}"`>
+      : F;
+
+/**
+ * Compile-time checks intersected with the paginate options: literal `sortBy` and `fields`
+ * must use schema paths of `T` or the schema-level aliases `A`.
+ */
+export type PaginateOptionsCheck<T, O, A extends string = never> = O extends { aggregation: readonly PipelineStage[] }
+  ? {}
+  : {
+      sortBy?: O extends { sortBy: infer S } ? CheckSortBy<T, S, DistanceFieldOf<O> | A> : string;
+      fields?: O extends { fields: infer F } ? CheckFields<T, F, A> : string | readonly string[];
+    };
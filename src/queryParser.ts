@@ -0,0 +1,299 @@
+import { Schema, Types } from 'mongoose';
+import { getSchemaAlias, toSchemaPath } from './alias';
+import { PaginateError } from './errors';
+import { PaginateOptions } from './paginate';
+import { escapeRegex } from './utils';
+
+// Query params consumed as pagination options instead of filter conditions
+const RESERVED_PARAMS = ['page', 'limit', 'sortBy', 'fields', 'populate'];
+
+const OPERATORS: Record<string, string> = {
+  eq: '$eq',
+  ne: '$ne',
+  gt: '$gt',
+  gte: '$gte',
+  lt: '$lt',
+  lte: '$lte',
+  in: '$in',
+  nin: '$nin',
+  regex: '$regex',
+  exists: '$exists',
+};
+
+export type PaginateQueryIssueCode =
+  | 'UNKNOWN_PARAM'
+  | 'FIELD_NOT_FILTERABLE'
+  | 'FIELD_NOT_SORTABLE'
+  | 'FIELD_NOT_SELECTABLE'
+  | 'FIELD_NOT_POPULATABLE'
+  | 'INVALID_OPERATOR'
+  | 'INVALID_VALUE';
+
+export interface PaginateQueryIssue {
+  param: string;
+  code: PaginateQueryIssueCode;
+  message: string;
+}
+
+/**
+ * Thrown by parsePaginateQuery with every problem found in the query, so an API can
+ * answer with a single 400 response listing all invalid params.
+ */
+export class PaginateQueryError extends PaginateError {
+  issues: PaginateQueryIssue[];
+
+  constructor(issues: PaginateQueryIssue[]) {
+    super('INVALID_QUERY', `parsePaginateQuery: ${issues.map((issue) => issue.message).join(' ')}`);
+    this.name = 'PaginateQueryError';
+    this.issues = issues;
+  }
+}
+
+// Params may use the schema-level aliases of the paginate and toJSON plugins; the allowlists may name
+// either the alias or its path, and the parsed filter and options hold schema paths
+export interface ParsePaginateQueryConfig {
+  // Paths that may appear as filter params. Anything else is rejected.
+  filterableFields?: string[];
+  // Paths accepted in `sortBy`. Anything else is rejected.
+  sortableFields?: string[];
+  // Paths accepted in `fields` (no restriction when omitted)
+  selectableFields?: string[];
+  // Paths accepted in `populate` (no restriction when omitted)
+  populatableFields?: string[];
+  // Largest accepted `limit`
+  maxLimit?: number;
+  // Accept `page=-1`, which returns every match in one page regardless of `maxLimit` (default: false)
+  allowFetchAll?: boolean;
+  // Params the handler reads itself (e.g. `search`); they are left out of the filter without an error
+  ignoredParams?: string[];
+}
+
+export interface ParsedPaginateQuery {
+  filter: Record<string, any>;
+  options: PaginateOptions;
+}
+
+// Resolve the scalar type of a path; arrays report the type of their elements
+const getPathType = (schema: Schema, path: string): string | undefined => {
+  const schemaType: any = schema.path(path);
+  if (!schemaType) return undefined;
+  if (schemaType.instance === 'Array') return schemaType.caster?.instance || schemaType.$embeddedSchemaType?.instance;
+  return schemaType.instance;
+};
+
+const castBoolean = (value: string): boolean | undefined => {
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return undefined;
+};
+
+// Cast a raw query string value to the path's schema type. Returns undefined when it cannot be cast.
+const castValue = (type: string | undefined, value: unknown): unknown => {
+  if (typeof value !== 'string') return undefined;
+
+  switch (type) {
+    case 'Number': {
+      const number = Number(value);
+      return value.trim() !== '' && !isNaN(number) ? number : undefined;
+    }
+    case 'Date': {
+      const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+      return isNaN(date.getTime()) ? undefined : date;
+    }
+    case 'Boolean':
+      return castBoolean(value);
+    case 'ObjectId':
+      return /^[a-f\d]{24}$/i.test(value) ? new Types.ObjectId(value) : undefined;
+    default:
+      return value;
+  }
+};
+
+// Normalize `price[gte]=10` whether the HTTP layer parsed brackets (qs) or left them in the key
+const normalizeParams = (query: Record<string, any>): [string, string | undefined, unknown][] => {
+  const params: [string, string | undefined, unknown][] = [];
+
+  Object.entries(query).forEach(([key, value]) => {
+    const bracketMatch = key.match(/^(.+)\[(\w+)\]$/);
+    if (bracketMatch) {
+      params.push([bracketMatch[1], bracketMatch[2], value]);
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.entries(value).forEach(([operator, operatorValue]) => params.push([key, operator, operatorValue]));
+    } else {
+      params.push([key, undefined, value]);
+    }
+  });
+
+  return params;
+};
+
+const toList = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') return value.split(',').map((item) => item.trim());
+  return [value];
+};
+
+/**
+ * Turns HTTP query params (e.g. Express `req.query`) into a filter and PaginateOptions for `paginate`.
+ *
+ * - `page`, `limit`, `sortBy`, `fields` and `populate` become options
+ * - every other param is a filter condition: `status=active`, `price[gte]=10`, `status[in]=a,b`,
+ *   `name[regex]=foo` (literal, case-insensitive), `deletedAt[exists]=false`
+ * - values are cast to the path's schema type (Number, Date, ObjectId, Boolean)
+ *
+ * Only allowlisted fields reach the filter or sort. All problems are collected and thrown
+ * together as a PaginateQueryError.
+ */
+export const parsePaginateQuery = (
+  query: Record<string, any>,
+  schema: Schema<any>,
+  config: ParsePaginateQueryConfig = {},
+): ParsedPaginateQuery => {
+  const issues: PaginateQueryIssue[] = [];
+  const filter: Record<string, any> = {};
+  const options: PaginateOptions = {};
+  const filterableFields = config.filterableFields || [];
+  const sortableFields = config.sortableFields || [];
+  const ignoredParams = config.ignoredParams || [];
+
+  const addIssue = (param: string, code: PaginateQueryIssueCode, message: string) =>
+    issues.push({ param, code, message });
+
+  // Schema-level aliases are accepted wherever a path is; allowlists may name either
+  const alias = getSchemaAlias(schema);
+  const toPath = (name: string): string => (alias ? toSchemaPath(alias, name) : name);
+  const isListed = (list: string[], name: string): boolean => list.includes(name) || list.includes(toPath(name));
+
+  const readString = (param: string): string | undefined => {
+    const value = query[param];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string') {
+      addIssue(param, 'INVALID_VALUE', `"${param}" must be a single value.`);
+      return undefined;
+    }
+    return value;
+  };
+
+  // Pagination options
+  (['page', 'limit'] as const).forEach((param) => {
+    const value = readString(param);
+    if (value === undefined) return;
+
+    const number = Number(value);
+    const isFetchAll = param === 'page' && number === -1 && config.allowFetchAll === true;
+    if (!Number.isInteger(number) || (number < 1 && !isFetchAll)) {
+      addIssue(param, 'INVALID_VALUE', `"${param}" must be a positive integer.`);
+    } else if (param === 'limit' && config.maxLimit !== undefined && number > config.maxLimit) {
+      addIssue(param, 'INVALID_VALUE', `"limit" must not exceed ${config.maxLimit}.`);
+    } else {
+      options[param] = number;
+    }
+  });
+
+  const sortBy = readString('sortBy');
+  if (sortBy !== undefined) {
+    const sortOptions = sortBy
+      .split(',')
+      .map((sortOption) => sortOption.trim())
+      .filter(Boolean);
+    const sortPaths = sortOptions.map((sortOption) => {
+      const [key, order] = sortOption.split(':');
+      if (!isListed(sortableFields, key)) {
+        addIssue('sortBy', 'FIELD_NOT_SORTABLE', `"${key}" is not sortable.`);
+      } else if (order !== undefined && order !== 'asc' && order !== 'desc') {
+        addIssue('sortBy', 'INVALID_VALUE', `"${sortOption}" must use "asc" or "desc".`);
+      }
+      return order === undefined ? toPath(key) : `${toPath(key)}:${order}`;
+    });
+    options.sortBy = sortPaths.join(',');
+  }
+
+  const fields = readString('fields');
+  if (fields !== undefined) {
+    const selectFields = fields
+      .split(',')
+      .map((field) => field.trim())
+      .filter(Boolean);
+    if (config.selectableFields) {
+      selectFields
+        .filter((field) => !isListed(config.selectableFields!, field.replace(/^-/, '')))
+        .forEach((field) => addIssue('fields', 'FIELD_NOT_SELECTABLE', `"${field}" cannot be selected.`));
+    }
+    options.fields = selectFields
+      .map((field) => (field.startsWith('-') ? `-${toPath(field.slice(1))}` : toPath(field)))
+      .join(',');
+  }
+
+  const populate = readString('populate');
+  if (populate !== undefined) {
+    if (config.populatableFields) {
+      populate
+        .split(';')
+        // `author(name).company` is checked as `author.company`
+        .map((populateOption) => populateOption.split(':')[0].replace(/\([^)]*\)/g, '').trim())
+        .filter(Boolean)
+        .filter((path) => !config.populatableFields!.includes(path))
+        .forEach((path) => addIssue('populate', 'FIELD_NOT_POPULATABLE', `"${path}" cannot be populated.`));
+    }
+    options.populate = populate;
+  }
+
+  // Filter conditions
+  const filterParams = Object.fromEntries(
+    Object.entries(query).filter(([key]) => !RESERVED_PARAMS.includes(key) && !ignoredParams.includes(key)),
+  );
+
+  normalizeParams(filterParams).forEach(([field, operatorName, value]) => {
+    const param = operatorName ? `${field}[${operatorName}]` : field;
+
+    const path = toPath(field);
+    if (field.startsWith('$') || !schema.path(path)) {
+      addIssue(param, 'UNKNOWN_PARAM', `"${field}" is not a known field.`);
+      return;
+    }
+    if (!isListed(filterableFields, field)) {
+      addIssue(param, 'FIELD_NOT_FILTERABLE', `"${field}" is not filterable.`);
+      return;
+    }
+
+    const type = getPathType(schema, path);
+    const operator = operatorName ? OPERATORS[operatorName] : Array.isArray(value) ? '$in' : '$eq';
+    if (!operator) {
+      addIssue(param, 'INVALID_OPERATOR', `"${operatorName}" is not a supported operator.`);
+      return;
+    }
+
+    let condition: unknown;
+    if (operator === '$exists') {
+      condition = typeof value === 'string' ? castBoolean(value) : undefined;
+    } else if (operator === '$regex') {
+      condition = typeof value === 'string' && type === 'String' ? escapeRegex(value) : undefined;
+    } else if (operator === '$in' || operator === '$nin') {
+      const values = toList(value).map((item) => castValue(type, item));
+      condition = values.every((item) => item !== undefined) ? values : undefined;
+    } else {
+      condition = castValue(type, value);
+    }
+
+    if (condition === undefined) {
+      addIssue(param, 'INVALID_VALUE', `"${param}" has an invalid value.`);
+      return;
+    }
+
+    const conditions = (filter[path] = filter[path] || {});
+    conditions[operator] = condition;
+    if (operator === '$regex') conditions.$options = 'i';
+  });
+
+  if (issues.length > 0) throw new PaginateQueryError(issues);
+
+  // Collapse `{ $eq: value }` into `value` for readable filters
+  Object.keys(filter).forEach((field) => {
+    const conditionKeys = Object.keys(filter[field]);
+    if (conditionKeys.length === 1 && conditionKeys[0] === '$eq') filter[field] = filter[field].$eq;
+  });
+
+  return { filter, options };
+};
+
+export default parsePaginateQuery;
@@ -0,0 +1,69 @@
+import { PipelineStage } from 'mongoose';
+
+// Field holding the seeded sort key while the page is built; removed before results are returned
+export const SHUFFLE_KEY = '__shuffleKey';
+
+// Park–Miller constants: every intermediate product stays below 2^53, so the server computes it exactly
+const MODULUS = 2147483647;
+const MULTIPLIER = 48271;
+const SQUARE_MASK = 67108864; // 2^26
+const ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Hash the seed into the initial value of the per-document hash
+export const hashSeed = (seed: string | number): number =>
+  String(seed)
+    .split('')
+    .reduce((acc, char) => ((acc + char.charCodeAt(0) + 1) * MULTIPLIER) % MODULUS, 1);
+
+// Non-linear round so neighbouring ids (e.g. ObjectIds from one insertMany) do not stay in order
+const mix = (value: Record<string, any>, seedHash: number): Record<string, any> => ({
+  $let: {
+    vars: { x: value },
+    in: {
+      $mod: [
+        { $add: [{ $multiply: [{ $mod: ['$$x', SQUARE_MASK] }, { $mod: ['$$x', SQUARE_MASK] }] }, '$$x', seedHash] },
+        MODULUS,
+      ],
+    },
+  },
+});
+
+/**
+ * `$addFields` stage deriving a stable pseudo-random sort key from the seed and the document's `_id`.
+ * Sorting by it (with `_id` as tie-breaker) gives the same permutation of the full result set for
+ * every page of a seed. `_id` must be an ObjectId, string, number or date.
+ */
+export const buildShuffleKeyStage = (seed: string | number): PipelineStage.AddFields => {
+  const seedHash = hashSeed(seed);
+  const id = { $toLower: { $toString: '$_id' } };
+
+  const idHash = {
+    $reduce: {
+      input: { $range: [0, { $strLenCP: id }] },
+      initialValue: seedHash,
+      in: {
+        $mod: [
+          {
+            $multiply: [
+              { $add: ['$$value', { $indexOfCP: [ALPHABET, { $substrCP: [id, '$$this', 1] }] }, 2] },
+              MULTIPLIER,
+            ],
+          },
+          MODULUS,
+        ],
+      },
+    },
+  };
+
+  return { $addFields: { [SHUFFLE_KEY]: mix(mix(idHash, seedHash), seedHash) } };
+};
+
+// Unbiased in-memory Fisher–Yates shuffle
+export const shuffleArray = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,125 @@
+import { Aggregate, Document, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+import { markScopedSchema, prependMatchStage } from './utils';
+
+export interface SoftDeleteOptions {
+  // Model name referenced by `deletedBy`; without it `deletedBy` accepts any value
+  deletedByRef?: string;
+  // Index `deletedAt` (default: true)
+  index?: boolean;
+}
+
+// Options read by the middleware, set through withDeleted()/onlyDeleted() or `includeDeleted` in paginate
+export interface SoftDeleteQueryOptions {
+  withDeleted?: boolean;
+  onlyDeleted?: boolean;
+}
+
+export interface SoftDeleteDocument {
+  deletedAt: Date | null;
+  deletedBy?: any;
+  softDelete(deletedBy?: any): Promise<this>;
+  restore(): Promise<this>;
+}
+
+export interface SoftDeleteQueryHelpers {
+  withDeleted<Q extends Query<any, any>>(this: Q): Q;
+  onlyDeleted<Q extends Query<any, any>>(this: Q): Q;
+}
+
+export interface SoftDeleteStatics<T> {
+  softDeleteMany(filter?: Record<string, any>, deletedBy?: any): Query<any, T>;
+  restoreMany(filter?: Record<string, any>): Query<any, T>;
+  findDeleted(filter?: Record<string, any>): Query<T[], T>;
+}
+
+/**
+ * Model type including the soft delete statics and query helpers.
+ * Combine with PaginateModel as `PaginateModel<T, SoftDeleteQueryHelpers> & SoftDeleteStatics<T>`.
+ */
+export type SoftDeleteModel<T extends Document, TQueryHelpers = {}> = Model<
+  T,
+  TQueryHelpers & SoftDeleteQueryHelpers
+> &
+  SoftDeleteStatics<T>;
+
+// Reads and writes hidden from deleted documents; hard deletes stay unscoped so deleted documents can be purged
+const SCOPED_QUERY_OPS: MongooseDefaultQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'count',
+  'distinct',
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+];
+
+const deletedCondition = (options: SoftDeleteQueryOptions): Record<string, any> | undefined => {
+  if (options.withDeleted) return undefined;
+  return { deletedAt: options.onlyDeleted ? { $ne: null } : null };
+};
+
+/**
+ * Mongoose Schema Plugin adding soft delete: `deletedAt`/`deletedBy` paths, softDelete()/restore()
+ * methods, bulk statics and middleware hiding deleted documents from queries and aggregations.
+ * @param schema The Mongoose Schema to modify.
+ * @param options Plugin options.
+ */
+export const softDelete = (schema: Schema<any>, options: SoftDeleteOptions = {}): void => {
+  schema.add({
+    deletedAt: { type: Date, default: null, index: options.index !== false },
+    deletedBy: options.deletedByRef
+      ? { type: Schema.Types.ObjectId, ref: options.deletedByRef, default: null }
+      : { type: Schema.Types.Mixed, default: null },
+  });
+
+  markScopedSchema(schema, () => deletedCondition({}));
+
+  schema.methods.softDelete = function (this: Document, deletedBy: any = null) {
+    this.set({ deletedAt: new Date(), deletedBy });
+    return this.save();
+  };
+
+  schema.methods.restore = function (this: Document) {
+    this.set({ deletedAt: null, deletedBy: null });
+    return this.save();
+  };
+
+  schema.statics.softDeleteMany = function (this: Model<any>, filter: Record<string, any> = {}, deletedBy: any = null) {
+    return this.updateMany(filter, { $set: { deletedAt: new Date(), deletedBy } });
+  };
+
+  schema.statics.restoreMany = function (this: Model<any>, filter: Record<string, any> = {}) {
+    return this.updateMany(filter, { $set: { deletedAt: null, deletedBy: null } }).setOptions({ onlyDeleted: true });
+  };
+
+  schema.statics.findDeleted = function (this: Model<any>, filter: Record<string, any> = {}) {
+    return this.find(filter).setOptions({ onlyDeleted: true });
+  };
+
+  const query = schema.query as Record<string, any>;
+  query.withDeleted = function (this: Query<any, any>) {
+    return this.setOptions({ withDeleted: true });
+  };
+  query.onlyDeleted = function (this: Query<any, any>) {
+    return this.setOptions({ onlyDeleted: true });
+  };
+
+  schema.pre(SCOPED_QUERY_OPS, function (this: Query<any, any>) {
+    // A filter on deletedAt is an explicit choice and is left untouched
+    if ('deletedAt' in this.getFilter()) return;
+    const condition = deletedCondition(this.getOptions() as SoftDeleteQueryOptions);
+    if (condition) this.where(condition);
+  });
+
+  schema.pre('aggregate', function (this: Aggregate<any>) {
+    const condition = deletedCondition(this.options as SoftDeleteQueryOptions);
+    if (!condition) return;
+    const pipeline = this.pipeline();
+    pipeline.splice(0, pipeline.length, ...prependMatchStage(pipeline, condition));
+  });
+};
+
+export default softDelete;
@@ -0,0 +1,220 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Aggregate, Document, Model, MongooseDefaultQueryMiddleware, Query, Schema } from 'mongoose';
+import { markScopedSchema, prependMatchStage } from './utils';
+
+export interface TenantScopeOptions {
+  // Top-level path holding the tenant (default: 'tenantId')
+  path?: string;
+  // Schema type of the path (default: ObjectId)
+  type?: typeof Schema.Types.ObjectId | StringConstructor | NumberConstructor;
+  // Model name referenced by the path
+  ref?: string;
+  // Index the path (default: true); compound indexes should start with it as well
+  index?: boolean;
+}
+
+// The current tenant, or a bypass set with runWithoutTenant
+interface TenantContext {
+  tenantId?: any;
+  bypass?: boolean;
+}
+
+const tenantStorage = new AsyncLocalStorage<TenantContext>();
+
+/**
+ * Runs `fn` with every query, aggregation and write of tenant-scoped models limited to `tenantId`,
+ * e.g. from an Express middleware: `app.use((req, res, next) => runWithTenant(req.user.tenantId, next))`.
+ */
+export const runWithTenant = <R>(tenantId: any, fn: () => R): R => {
+  if (tenantId === undefined || tenantId === null) {
+    throw new Error('tenantScope: runWithTenant() needs a tenant id.');
+  }
+  return tenantStorage.run({ tenantId }, fn);
+};
+
+/**
+ * Runs `fn` without tenant scoping, for cross-tenant work such as migrations and admin reports.
+ */
+export const runWithoutTenant = <R>(fn: () => R): R => tenantStorage.run({ bypass: true }, fn);
+
+export const getCurrentTenant = (): any => tenantStorage.getStore()?.tenantId;
+
+// Scope of cached paginate results: one entry per tenant
+const getTenantScopeKey = (): unknown => tenantStorage.getStore();
+
+// Reads and writes limited to the current tenant
+const SCOPED_QUERY_OPS: MongooseDefaultQueryMiddleware[] = [
+  'find',
+  'findOne',
+  'countDocuments',
+  'count',
+  'distinct',
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+];
+
+const REPLACE_OPS = ['replaceOne', 'findOneAndReplace'];
+
+// Update operators that may write the tenant path, as long as they write the current tenant
+const TENANT_SETTERS = ['$set', '$setOnInsert'];
+
+// The tenant path of each tenant-scoped schema, with the current tenant's condition on it (undefined with
+// runWithoutTenant), for plugins keeping their own records of its documents (auditTrail's history)
+interface TenantScope {
+  path: string;
+  getFilter(model: Model<any>, operation: string): Record<string, any> | undefined;
+}
+
+const tenantScopes = new WeakMap<Schema<any>, TenantScope>();
+
+export const getTenantScope = (schema: Schema<any>): TenantScope | undefined => tenantScopes.get(schema);
+
+/**
+ * Mongoose Schema Plugin isolating tenants: adds a tenant path, limits every query and aggregation of the
+ * model to the tenant set with runWithTenant(), stamps it on new documents and rejects cross-tenant writes.
+ * Operations outside runWithTenant()/runWithoutTenant() throw.
+ * @param schema The Mongoose Schema to modify.
+ * @param options Plugin options.
+ */
+export const tenantScope = (schema: Schema<any>, options: TenantScopeOptions = {}): void => {
+  const path = options.path || 'tenantId';
+
+  schema.add({
+    [path]: {
+      type: options.type || Schema.Types.ObjectId,
+      ...(options.ref ? { ref: options.ref } : {}),
+      required: true,
+      index: options.index !== false,
+    },
+  });
+
+  const requireContext = (modelName: string, operation: string): TenantContext => {
+    const context = tenantStorage.getStore();
+    if (!context) {
+      throw new Error(
+        `tenantScope: ${modelName}.${operation}() ran without a tenant. ` +
+          'Wrap it in runWithTenant(), or runWithoutTenant() for cross-tenant work.',
+      );
+    }
+    return context;
+  };
+
+  // Aggregations are not cast, so the tenant is cast to the path's type here
+  const getTenantFilter = (model: Model<any>, operation = 'aggregate'): Record<string, any> | undefined => {
+    const context = requireContext(model.modelName, operation);
+    if (context.bypass) return undefined;
+    return { [path]: model.castObject({ [path]: context.tenantId })[path] };
+  };
+
+  markScopedSchema(schema, getTenantFilter, getTenantScopeKey);
+  tenantScopes.set(schema, { path, getFilter: getTenantFilter });
+
+  const assertTenant = (modelName: string, tenantId: any, value: unknown): void => {
+    if (value === undefined || String(value) === String(tenantId)) return;
+    throw new Error(`tenantScope: cannot write ${path} "${value}" to ${modelName} as tenant "${tenantId}".`);
+  };
+
+  // Stamp the tenant on documents without one; a document of another tenant cannot be saved
+  const stampDocument = function (this: Document) {
+    const modelName = (this.constructor as Model<any>).modelName;
+    const context = requireContext(modelName, 'save');
+    if (context.bypass) return;
+    if (this.get(path) === undefined || this.get(path) === null) this.set(path, context.tenantId);
+    else assertTenant(modelName, context.tenantId, this.get(path));
+  };
+
+  // Validation runs before save middleware, so `required` sees the stamped tenant
+  schema.pre('validate', stampDocument);
+  schema.pre('save', stampDocument);
+
+  // `lean` inserts skip validation, so the raw documents are stamped here as well
+  schema.pre('insertMany', function (this: Model<any>, next, docs: any) {
+    try {
+      const context = requireContext(this.modelName, 'insertMany');
+      if (!context.bypass) {
+        (Array.isArray(docs) ? docs : [docs]).forEach((doc: Record<string, any>) => {
+          const value = doc instanceof Document ? doc.get(path) : doc[path];
+          if (value !== undefined && value !== null) assertTenant(this.modelName, context.tenantId, value);
+          else if (doc instanceof Document) doc.set(path, context.tenantId);
+          else doc[path] = context.tenantId;
+        });
+      }
+      next();
+    } catch (error) {
+      next(error as Error);
+    }
+  });
+
+  SCOPED_QUERY_OPS.forEach((op) => {
+    schema.pre(op, function (this: Query<any, any>) {
+      const modelName = this.model.modelName;
+      const context = requireContext(modelName, op);
+      if (context.bypass) return;
+
+      // ANDed rather than assigned, so a filter naming another tenant matches nothing
+      this.and([{ [path]: context.tenantId }]);
+
+      const update = this.getUpdate() as Record<string, any> | Record<string, any>[] | null;
+      if (!update) return;
+      if (Array.isArray(update)) {
+        // Pipeline updates cannot be checked stage by stage, so they must leave the tenant path alone
+        if (update.some((stage) => JSON.stringify(stage).includes(`"${path}"`))) {
+          throw new Error(`tenantScope: pipeline updates of ${modelName} cannot write ${path}.`);
+        }
+        return;
+      }
+
+      if (REPLACE_OPS.includes(op)) {
+        // A replacement without the tenant path would drop the document out of its tenant
+        assertTenant(modelName, context.tenantId, update[path]);
+        this.setUpdate({ ...update, [path]: context.tenantId });
+        return;
+      }
+
+      Object.entries(update).forEach(([key, value]) => {
+        if (!key.startsWith('$')) {
+          if (key === path) assertTenant(modelName, context.tenantId, value);
+          return;
+        }
+        if (!value || typeof value !== 'object') return;
+        // $rename names the written path in its values
+        if (key === '$rename' && Object.values(value).includes(path)) {
+          throw new Error(`tenantScope: $rename cannot write ${path} of ${modelName}.`);
+        }
+        if (!(path in value)) return;
+        if (!TENANT_SETTERS.includes(key)) throw new Error(`tenantScope: ${key} cannot write ${path} of ${modelName}.`);
+        assertTenant(modelName, context.tenantId, value[path]);
+      });
+    });
+  });
+
+  // doc.deleteOne() writes to the collection directly, without query middleware
+  schema.pre('deleteOne', { document: true, query: false }, function (this: Document) {
+    const modelName = (this.constructor as Model<any>).modelName;
+    const context = requireContext(modelName, 'deleteOne');
+    if (!context.bypass) assertTenant(modelName, context.tenantId, this.get(path));
+  });
+
+  // The estimate covers the whole collection and cannot be limited to a tenant
+  schema.pre('estimatedDocumentCount', function (this: Query<any, any>) {
+    const context = requireContext(this.model.modelName, 'estimatedDocumentCount');
+    if (!context.bypass) {
+      throw new Error(`tenantScope: estimatedDocumentCount() of ${this.model.modelName} would count every tenant.`);
+    }
+  });
+
+  schema.pre('aggregate', function (this: Aggregate<any>) {
+    const match = getTenantFilter(this.model());
+    if (!match) return;
+    const pipeline = this.pipeline();
+    pipeline.splice(0, pipeline.length, ...prependMatchStage(pipeline, match));
+  });
+};
+
+export default tenantScope;
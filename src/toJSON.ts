@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
-import { Schema, Document, ToObjectOptions } from 'mongoose';
+import { Schema, Document, ToObjectOptions, Types } from 'mongoose';
+import { AliasSpec, getSchemaAlias, registerSchemaAlias } from './alias';
 
 // The Mongoose document object that is being transformed (the `doc` parameter)
 type DocType = Document & Record<string, any>;
@@ -83,6 +84,154 @@ const parseAliasString = (aliasString: string): Record<string, string> => {
   return aliasMap;
 };
 
+// Walk the schema into single nested and array subdocument schemas, yielding full dotted paths
+const collectSchemaPaths = (schema: Schema<any>, prefix = ''): [string, MongoosePathWithOptions][] => {
+  const collected: [string, MongoosePathWithOptions][] = [];
+  const paths = schema.paths as Record<string, MongoosePathWithOptions>;
+
+  Object.keys(paths).forEach((path) => {
+    const fullPath = `${prefix}${path}`;
+    collected.push([fullPath, paths[path]]);
+    if (paths[path]?.schema) collected.push(...collectSchemaPaths(paths[path].schema, `${fullPath}.`));
+  });
+
+  return collected;
+};
+
+// Built-in serializers, named `<type>:<output>`
+export type SerializerName = 'decimal:string' | 'date:iso' | 'date:epoch' | 'objectId:string' | 'buffer:base64';
+
+// A built-in name, or a function receiving the value (each element for arrays)
+export type Serializer = SerializerName | ((value: any) => unknown);
+
+// Value types that can get a schema-wide serializer
+export type SerializableType = 'Decimal128' | 'Date' | 'ObjectId' | 'Buffer';
+
+// Buffers arrive as BSON Binary (lean results, holding the bytes in `buffer`) or in their JSON form
+// { type: 'Buffer', data } (documents)
+const toBuffer = (value: any): Buffer => {
+  if (Buffer.isBuffer(value)) return value;
+  return Buffer.from(value._bsontype === 'Binary' ? value.buffer : value.data);
+};
+
+// Built-ins only convert values of their type; anything else is left as is
+const BUILT_IN_SERIALIZERS: Record<SerializerName, [SerializableType, (value: any) => unknown]> = {
+  // With `flattenDecimals` (the toJSON default) decimals arrive as { $numberDecimal }
+  'decimal:string': ['Decimal128', (value) => value.$numberDecimal ?? value.toString()],
+  'date:iso': ['Date', (value: Date) => value.toISOString()],
+  'date:epoch': ['Date', (value: Date) => value.getTime()],
+  'objectId:string': ['ObjectId', (value) => value.toHexString()],
+  'buffer:base64': ['Buffer', (value) => toBuffer(value).toString('base64')],
+};
+
+const getSerializableType = (value: any): SerializableType | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  if (value instanceof Date) return 'Date';
+  if (Buffer.isBuffer(value) || value._bsontype === 'Binary') return 'Buffer';
+  if (value._bsontype === 'ObjectId' || value._bsontype === 'ObjectID') return 'ObjectId';
+  if (value._bsontype === 'Decimal128') return 'Decimal128';
+  const keys = Object.keys(value);
+  if (keys.length === 1 && keys[0] === '$numberDecimal') return 'Decimal128';
+  if (keys.length === 2 && value.type === 'Buffer' && Array.isArray(value.data)) return 'Buffer';
+  return undefined;
+};
+
+const checkSerializer = (serializer: unknown, target: string): void => {
+  if (typeof serializer === 'function' || Object.keys(BUILT_IN_SERIALIZERS).includes(serializer as string)) return;
+  throw new Error(
+    `toJSON: unknown serializer "${serializer}" for ${target}. ` +
+      `Expected a function or one of ${Object.keys(BUILT_IN_SERIALIZERS).join(', ')}.`,
+  );
+};
+
+const runSerializer = (serializer: Serializer, value: any): unknown => {
+  if (typeof serializer === 'function') {
+    // Functions get a Decimal128 rather than its flattened JSON form
+    const isFlatDecimal = getSerializableType(value) === 'Decimal128' && value.$numberDecimal !== undefined;
+    return serializer(isFlatDecimal ? Types.Decimal128.fromString(value.$numberDecimal) : value);
+  }
+  const [type, convert] = BUILT_IN_SERIALIZERS[serializer];
+  return getSerializableType(value) === type ? convert(value) : value;
+};
+
+// Replace the values at a path, through arrays of subdocuments and into arrays of values
+const mapAtPath = (obj: RetType, path: string[], convert: (value: any) => unknown, index = 0) => {
+  if (!obj || typeof obj !== 'object') return;
+  if (Array.isArray(obj)) {
+    obj.forEach((item) => mapAtPath(item, path, convert, index));
+    return;
+  }
+  if (index < path.length - 1) {
+    mapAtPath(obj[path[index]], path, convert, index + 1);
+    return;
+  }
+  const value = obj[path[index]];
+  if (value === undefined || value === null) return;
+  obj[path[index]] = Array.isArray(value)
+    ? value.map((item) => (item === undefined || item === null ? item : convert(item)))
+    : convert(value);
+};
+
+// Replace values of the given types at any depth: nested objects, arrays and populated documents
+const serializeByType = (value: any, serializers: Partial<Record<SerializableType, Serializer>>): any => {
+  const type = getSerializableType(value);
+  if (type) return serializers[type] ? runSerializer(serializers[type]!, value) : value;
+  if (Array.isArray(value)) return value.map((item) => serializeByType(item, serializers));
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    Object.keys(value).forEach((key) => {
+      value[key] = serializeByType(value[key], serializers);
+    });
+  }
+  return value;
+};
+
+// Built-in masks, for values that are partly shown rather than removed
+export type MaskName = 'email' | 'last4' | 'phone' | 'fixed';
+
+// A built-in name, or a function receiving the value (each element for arrays)
+export type Mask = MaskName | ((value: any) => unknown);
+
+// Same length whatever the value, so it does not leak the length either
+const FIXED_MASK = '********';
+
+const BUILT_IN_MASKS: Record<MaskName, (value: string) => string> = {
+  // jane@mail.com → j***@mail.com
+  email: (value) => {
+    const at = value.lastIndexOf('@');
+    return at > 0 ? `${value[0]}***${value.slice(at)}` : FIXED_MASK;
+  },
+  // 4111111111111111 → ************1111
+  last4: (value) => (value.length > 4 ? `${'*'.repeat(value.length - 4)}${value.slice(-4)}` : FIXED_MASK),
+  // +1 555 123 4567 → +1 5** *** **67: digits but the first and last two are hidden, separators are kept
+  phone: (value) => {
+    const digits = value.replace(/\D/g, '').length;
+    if (digits <= 4) return FIXED_MASK;
+    let position = 0;
+    return value.replace(/\d/g, (digit) => (++position <= 2 || position > digits - 2 ? digit : '*'));
+  },
+  fixed: () => FIXED_MASK,
+};
+
+const checkMask = (mask: unknown, path: string): void => {
+  if (typeof mask === 'function' || Object.keys(BUILT_IN_MASKS).includes(mask as string)) return;
+  throw new Error(
+    `toJSON: unknown mask "${mask}" for path "${path}". ` +
+      `Expected a function or one of ${Object.keys(BUILT_IN_MASKS).join(', ')}.`,
+  );
+};
+
+// Built-ins mask strings and numbers; any other value is replaced by the fixed mask
+const runMask = (mask: Mask, value: any): unknown => {
+  if (typeof mask === 'function') return mask(value);
+  if (typeof value !== 'string' && typeof value !== 'number') return FIXED_MASK;
+  return BUILT_IN_MASKS[mask](String(value));
+};
+
+const maskAtPath = (ret: RetType, path: string, mask: Mask): void => {
+  checkMask(mask, path);
+  mapAtPath(ret, path.split('.'), (value) => runMask(mask, value));
+};
+
 // FIX: We now omit both 'transform' (which is handled by the plugin) AND 'flattenMaps'
 // to break the recursive type dependency and the literal type conflict (flattenMaps: false).
 // This allows the custom ToJSONOptions to pass without error.
@@ -90,14 +239,56 @@ export interface ToJSONOptions extends Omit<ToObjectOptions, 'transform' | 'flat
   // Our custom fields
   includeTimeStamps?: boolean;
   alias?: string | Record<string, string>;
+  // Caller role(s) matched against the `visibleTo` schema option
+  role?: string;
+  roles?: string[];
+  // Grants the pseudo role "self" when it returns true, e.g. (doc) => doc._id.equals(currentUser.id)
+  isSelf?: (doc: DocType, ret: RetType) => boolean;
+  // Per-call serializers by path, over the `serialize` schema options (`false` removes a path's serializer)
+  serialize?: Record<string, Serializer | false>;
+  // Per-call serializers by value type, over the plugin's `serializers` (`false` removes a type's serializer)
+  serializers?: Partial<Record<SerializableType, Serializer | false>>;
+  // Named view declared in the plugin options; the other options override its settings
+  view?: string;
+  // Paths whose `mask` is lifted for this call, or `true` for all of them (not passed on to populated documents)
+  unmask?: string[] | boolean;
+  // `encrypt` paths kept in the output, or `true` for all of them (not passed on to populated documents)
+  includeEncrypted?: string[] | boolean;
   // Optionally, expose flattenMaps again with a looser boolean type, or just omit it entirely.
   // We'll just omit it, as it's not core to the plugin's functionality.
 }
 
+/**
+ * A named output shape, e.g. `summary` for lists. Dotted paths reach into subdocuments and populated documents.
+ */
+export interface ToJSONView {
+  // Paths kept in the output; `id` (and timestamps when included) always are
+  include?: string[];
+  // Paths removed from the output
+  exclude?: string[];
+  alias?: string | Record<string, string>;
+  includeTimeStamps?: boolean;
+}
+
+// Options of `schema.plugin(toJSON, options)`
+export interface ToJSONPluginOptions {
+  // Schema-wide serializers by value type, e.g. { Decimal128: 'decimal:string', Date: 'date:iso' }
+  serializers?: Partial<Record<SerializableType, Serializer>>;
+  views?: Record<string, ToJSONView>;
+  // Schema-level aliases, shared with the paginate plugin which accepts them in filters, sortBy and fields
+  alias?: AliasSpec;
+}
+
 // Internal type for Mongoose paths to allow access to custom options
 interface MongoosePathWithOptions {
   options?: {
     private?: boolean;
+    visibleTo?: string | string[];
+    serialize?: Serializer;
+    mask?: Mask;
+    unmaskFor?: string | string[];
+    // Set by the encryptedFields plugin's users
+    encrypt?: boolean | { blindIndex?: boolean };
     [key: string]: any;
   };
   [key: string]: any;
@@ -108,7 +299,7 @@ export interface PluginSchema extends Schema {
   options: {
     // The transform property here is okay, as it's part of the Schema's options, not the document's toJSON options object.
     toJSON?: {
-      transform?: (doc: DocType, ret: RetType, options: ToJSONOptions) => RetType | undefined;
+      transform?: TransformFn;
       virtuals?: boolean;
       getters?: boolean;
     };
@@ -117,16 +308,304 @@ export interface PluginSchema extends Schema {
   statics: Record<string, any>;
 }
 
+type TransformFn = (doc: DocType, ret: RetType, options: ToJSONOptions) => RetType | undefined;
+
+// Schemas the plugin was applied to, with the transform that was configured before it and the plugin options
+const toJSONSchemas = new WeakMap<
+  Schema<any>,
+  { existingTransform?: TransformFn; pluginOptions: ToJSONPluginOptions }
+>();
+
+type PathOptions = NonNullable<MongoosePathWithOptions['options']>;
+
+// An option of a path; for arrays it may also sit on the element type (`[{ type, serialize }]`)
+const getPathOption = <K extends 'serialize' | 'mask' | 'unmaskFor'>(
+  schemaType: MongoosePathWithOptions,
+  key: K,
+): PathOptions[K] | undefined => schemaType?.options?.[key] ?? schemaType?.caster?.options?.[key];
+
+// Keep only the paths of `tree` (`true` keeps the whole value), through arrays and nested objects
+const pickInPlace = (obj: any, tree: PathTree): void => {
+  if (Array.isArray(obj)) {
+    obj.forEach((item) => pickInPlace(item, tree));
+    return;
+  }
+  // Values that are not objects (e.g. an unpopulated ref) are kept as they are
+  if (!obj || typeof obj !== 'object' || Object.getPrototypeOf(obj) !== Object.prototype) return;
+  Object.keys(obj).forEach((key) => {
+    if (!tree[key]) delete obj[key];
+    else if (tree[key] !== true) pickInPlace(obj[key], tree[key] as PathTree);
+  });
+};
+
+interface PathTree {
+  [key: string]: PathTree | true;
+}
+
+// A parent path keeps everything below it, even when a child path is listed as well
+const toPathTree = (paths: string[]): PathTree => {
+  const tree: PathTree = {};
+  paths.forEach((path) => {
+    const segments = path.split('.');
+    let node = tree;
+    segments.forEach((segment, i) => {
+      if (node[segment] === true) return;
+      if (i === segments.length - 1) node[segment] = true;
+      else node = node[segment] = (node[segment] as PathTree) || {};
+    });
+  });
+  return tree;
+};
+
+/**
+ * The view of the toJSON plugin registered on the schema under `name`.
+ */
+export const getToJSONView = (schema: Schema<any>, name: string): ToJSONView | undefined => {
+  const views = toJSONSchemas.get(schema)?.pluginOptions.views;
+  return views && Object.prototype.hasOwnProperty.call(views, name) ? views[name] : undefined;
+};
+
+// Resolve `options.view` into the options it stands for; explicit options win over the view's settings.
+// Populated documents receive their parent's options, so a view they do not declare is ignored there.
+const resolveViewOptions = (schema: Schema<any>, options: ToJSONOptions): [ToJSONOptions, ToJSONView?] => {
+  if (!options.view) return [options];
+  const view = getToJSONView(schema, options.view);
+  if (!view) {
+    if ((options as Record<string, any>)._parentOptions) return [options];
+    throw new Error(`toJSON: unknown view "${options.view}".`);
+  }
+
+  const resolved: ToJSONOptions = { alias: view.alias, includeTimeStamps: view.includeTimeStamps };
+  Object.entries(options).forEach(([key, value]) => {
+    if (value !== undefined) (resolved as Record<string, any>)[key] = value;
+  });
+  return [resolved, view];
+};
+
+// The toJSON rules shared by doc.toJSON() and applyToJSON()
+const applyRules = (
+  schema: Schema<any>,
+  doc: DocType,
+  ret: RetType,
+  callOptions: ToJSONOptions = {},
+): RetType | undefined => {
+  const [options, view] = resolveViewOptions(schema, callOptions);
+
+  // Remove private fields and fields the caller's roles may not see
+  const roles = [...(options.roles || []), ...(options.role ? [options.role] : [])];
+  let isSelf: boolean | undefined;
+  const canSee = (visibleTo: string | string[]): boolean => {
+    const allowedRoles = Array.isArray(visibleTo) ? visibleTo : [visibleTo];
+    if (roles.some((role) => allowedRoles.includes(role))) return true;
+    if (!allowedRoles.includes('self') || !options.isSelf) return false;
+    if (isSelf === undefined) isSelf = Boolean(options.isSelf(doc, ret));
+    return isSelf;
+  };
+
+  // Populated documents receive their parent's options, and `unmask` and `includeEncrypted` name the parent's paths
+  const isPopulated = Boolean((options as Record<string, any>)._parentOptions);
+  const isListed = (list: string[] | boolean | undefined, path: string): boolean =>
+    !isPopulated && (list === true || (Array.isArray(list) && list.includes(path)));
+  const isUnmasked = (path: string, unmaskFor?: string | string[]): boolean =>
+    isListed(options.unmask, path) || Boolean(unmaskFor && canSee(unmaskFor));
+
+  const pathSerializers: Record<string, Serializer | false> = {};
+  const pathMasks: Record<string, Mask> = {};
+  collectSchemaPaths(schema).forEach(([path, schemaType]) => {
+    const pathOptions = schemaType?.options || {};
+    if (
+      pathOptions.private ||
+      (pathOptions.visibleTo && !canSee(pathOptions.visibleTo)) ||
+      (pathOptions.encrypt && !isListed(options.includeEncrypted, path))
+    ) {
+      deleteAtPath(ret, path.split('.'));
+      return;
+    }
+    const serializer = getPathOption(schemaType, 'serialize');
+    if (serializer) pathSerializers[path] = serializer;
+    const mask = getPathOption(schemaType, 'mask');
+    if (mask && !isUnmasked(path, getPathOption(schemaType, 'unmaskFor'))) pathMasks[path] = mask;
+  });
+
+  ret.id = ret._id?.toString();
+
+  // Handle timestamps
+  if (options.includeTimeStamps) {
+    // Timestamps exist on the document object if enabled on the schema
+    ret.createdAt = ret.createdAt || (doc as any).createdAt;
+    ret.updatedAt = ret.updatedAt || (doc as any).updatedAt;
+  } else {
+    delete ret.createdAt;
+    delete ret.updatedAt;
+  }
+
+  delete ret._id;
+  delete ret.__v;
+
+  if (view?.include) {
+    const keep = [...view.include, 'id', ...(options.includeTimeStamps ? ['createdAt', 'updatedAt'] : [])];
+    pickInPlace(ret, toPathTree(keep));
+  }
+  view?.exclude?.forEach((path) => deleteAtPath(ret, path.split('.')));
+
+  // Serialize by path first, then remaining values by type; both run before aliases rename paths
+  Object.entries({ ...pathSerializers, ...options.serialize }).forEach(([path, serializer]) => {
+    if (serializer === false) return;
+    checkSerializer(serializer, `path "${path}"`);
+    mapAtPath(ret, path.split('.'), (value) => runSerializer(serializer, value));
+  });
+
+  const typeSerializers = { ...toJSONSchemas.get(schema)?.pluginOptions.serializers, ...options.serializers };
+  Object.entries(typeSerializers).forEach(([type, serializer]) => {
+    if (serializer === false) delete typeSerializers[type as SerializableType];
+    else checkSerializer(serializer, `type "${type}"`);
+  });
+  if (Object.keys(typeSerializers).length > 0) {
+    serializeByType(ret, typeSerializers as Partial<Record<SerializableType, Serializer>>);
+  }
+
+  // Masks apply to the serialized values, before aliases rename paths
+  Object.entries(pathMasks).forEach(([path, mask]) => maskAtPath(ret, path, mask));
+
+  // Schema-level aliases first; a per-call alias renames the aliased output
+  applySchemaAlias(schema, ret);
+
+  // Apply alias mapping
+  if (options.alias) {
+    let aliasObject: Record<string, string>;
+    if (typeof options.alias === 'string') {
+      aliasObject = parseAliasString(options.alias);
+    } else {
+      aliasObject = options.alias;
+    }
+
+    for (const [fromPath, toPath] of Object.entries(aliasObject)) {
+      renameDeepKey(ret, fromPath, toPath);
+    }
+  }
+
+  // Chain to existing transform if present
+  const existingTransform = toJSONSchemas.get(schema)?.existingTransform;
+  if (existingTransform) return existingTransform(doc, ret, options);
+
+  return ret;
+};
+
+/**
+ * Rename paths to the schema-level aliases registered by the toJSON or paginate plugin. Modifies `ret` in place.
+ */
+export const applySchemaAlias = (schema: Schema<any>, ret: RetType): RetType => {
+  getSchemaAlias(schema)?.entries.forEach(([fromPath, toPath]) => renameDeepKey(ret, fromPath, toPath));
+  return ret;
+};
+
+/**
+ * Mask every `mask` path of the schema, none unmasked, for rows serialized without the toJSON rules.
+ * Modifies `ret` in place.
+ */
+export const applyMasks = (schema: Schema<any>, ret: RetType): RetType => {
+  collectSchemaPaths(schema).forEach(([path, schemaType]) => {
+    const mask = getPathOption(schemaType, 'mask');
+    if (mask) maskAtPath(ret, path, mask);
+  });
+  return ret;
+};
+
+/**
+ * Remove every `encrypt` path of the schema not listed in `includeEncrypted`, for rows serialized without
+ * the toJSON rules. Modifies `ret` in place.
+ */
+export const stripEncrypted = (
+  schema: Schema<any>,
+  ret: RetType,
+  includeEncrypted: string[] | boolean | undefined,
+): RetType => {
+  if (includeEncrypted === true) return ret;
+  getEncryptedPaths(schema)
+    .filter((path) => !(Array.isArray(includeEncrypted) && includeEncrypted.includes(path)))
+    .forEach((path) => deleteAtPath(ret, path.split('.')));
+  return ret;
+};
+
+/**
+ * Full dotted paths marked `encrypt`, including paths inside subdocument arrays.
+ */
+export const getEncryptedPaths = (schema: Schema<any>): string[] =>
+  collectSchemaPaths(schema)
+    .filter(([, schemaType]) => schemaType?.options?.encrypt)
+    .map(([path]) => path);
+
+/**
+ * Full dotted paths with a `mask` option, including paths inside subdocument arrays.
+ */
+export const getMaskedPaths = (schema: Schema<any>): string[] =>
+  collectSchemaPaths(schema)
+    .filter(([, schemaType]) => getPathOption(schemaType, 'mask'))
+    .map(([path]) => path);
+
+/**
+ * Full dotted paths with a `visibleTo` option and the roles allowed to see them.
+ */
+export const getVisibleToPaths = (schema: Schema<any>): [string, string[]][] =>
+  collectSchemaPaths(schema)
+    .filter(([, schemaType]) => schemaType?.options?.visibleTo)
+    .map(([path, schemaType]) => {
+      const visibleTo = schemaType.options!.visibleTo!;
+      return [path, Array.isArray(visibleTo) ? visibleTo : [visibleTo]];
+    });
+
+/**
+ * Whether the toJSON plugin was applied to the schema.
+ */
+export const hasToJSONPlugin = (schema: Schema<any>): boolean => toJSONSchemas.has(schema);
+
+/**
+ * Full dotted paths of the schema, including paths inside subdocument arrays.
+ */
+export const getSchemaPaths = (schema: Schema<any>): string[] => collectSchemaPaths(schema).map(([path]) => path);
+
+/**
+ * Full dotted paths marked `private: true`, including paths inside subdocument arrays.
+ */
+export const getPrivatePaths = (schema: Schema<any>): string[] =>
+  collectSchemaPaths(schema)
+    .filter(([, schemaType]) => schemaType?.options?.private)
+    .map(([path]) => path);
+
+/**
+ * Applies a schema's toJSON rules (private and role stripping, id mapping, timestamps, serializers, masks, alias)
+ * to a plain object such as a lean or aggregation result. The object is modified in place.
+ * @param schema The schema whose rules apply.
+ * @param obj The plain object to serialize.
+ * @param options The same options accepted by doc.toJSON().
+ */
+export const applyToJSON = (schema: Schema<any>, obj: RetType, options: ToJSONOptions = {}): RetType =>
+  applyRules(schema, obj as DocType, obj, options) ?? obj;
+
 /**
  * Mongoose Schema Plugin to configure toJSON transform options.
  * This function modifies the provided schema in place.
  * @param schema The Mongoose Schema to modify.
+ * @param pluginOptions Schema-wide serializers by value type, named views and aliases.
  */
-export const toJSON = (schema: Schema<any>): void => {
+export const toJSON = (schema: Schema<any>, pluginOptions: ToJSONPluginOptions = {}): void => {
   // Use a type assertion internally to access the required properties (options and paths)
   const pluginSchema = schema as PluginSchema;
 
-  const existingTransform = pluginSchema.options.toJSON?.transform;
+  // Unknown serializer and mask names fail at registration rather than on the first response
+  Object.entries(pluginOptions.serializers || {}).forEach(([type, serializer]) => {
+    checkSerializer(serializer, `type "${type}"`);
+  });
+  collectSchemaPaths(schema).forEach(([path, schemaType]) => {
+    const serializer = getPathOption(schemaType, 'serialize');
+    if (serializer) checkSerializer(serializer, `path "${path}"`);
+    const mask = getPathOption(schemaType, 'mask');
+    if (mask) checkMask(mask, path);
+  });
+
+  if (pluginOptions.alias) registerSchemaAlias(schema, pluginOptions.alias, getSchemaPaths(schema));
+
+  toJSONSchemas.set(schema, { existingTransform: pluginSchema.options.toJSON?.transform, pluginOptions });
 
   pluginSchema.options.toJSON = {
     ...pluginSchema.options.toJSON,
@@ -136,50 +615,11 @@ export const toJSON = (schema: Schema<any>): void => {
      * @param options The options passed to doc.toJSON().
      */
     transform(doc: DocType, ret: RetType, options: ToJSONOptions = {}): RetType | undefined {
-      // Remove private fields
-      // We cast pluginSchema.paths here to access our custom MongoosePathWithOptions properties (like `private`)
-      const paths = pluginSchema.paths as Record<string, MongoosePathWithOptions>;
-      Object.keys(paths).forEach((path) => {
-        if (paths[path]?.options?.private) deleteAtPath(ret, path.split('.'));
-      });
-
-      ret.id = ret._id?.toString();
-
-      // Handle timestamps
-      if (options.includeTimeStamps) {
-        // Timestamps exist on the document object if enabled on the schema
-        ret.createdAt = ret.createdAt || (doc as any).createdAt;
-        ret.updatedAt = ret.updatedAt || (doc as any).updatedAt;
-      } else {
-        delete ret.createdAt;
-        delete ret.updatedAt;
-      }
-
-      delete ret._id;
-      delete ret.__v;
-
-      // Apply alias mapping
-      if (options.alias) {
-        let aliasObject: Record<string, string>;
-        if (typeof options.alias === 'string') {
-          aliasObject = parseAliasString(options.alias);
-        } else {
-          aliasObject = options.alias;
-        }
-
-        for (const [fromPath, toPath] of Object.entries(aliasObject)) {
-          renameDeepKey(ret, fromPath, toPath);
-        }
-      }
-
-      // Chain to existing transform if present
-      if (existingTransform) return existingTransform(doc, ret, options);
-
-      return ret;
+      return applyRules(pluginSchema, doc, ret, options);
     },
     virtuals: true,
     getters: true,
   };
 };
 
-export default toJSON;
\ No newline at end of file
+export default toJSON;
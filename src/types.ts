@@ -1,4 +1,76 @@
 // Re-export canonical types from their source of truth.
 // Do not duplicate interface definitions here.
-export type { PaginateOptions, QueryResult, PaginateModel } from './paginate';
-export type { ToJSONOptions, PluginSchema } from './toJSON';
+export type {
+  PaginateOptions,
+  QueryResult,
+  PaginateModel,
+  CountStrategy,
+  CursorPaginateOptions,
+  CursorQueryResult,
+  ExportQueryOptions,
+  LabeledQueryResult,
+  QueryResultLabels,
+  PaginateResult,
+  PaginatePluginOptions,
+  PaginateDefaults,
+} from './paginate';
+export type { LRUCacheOptions, PaginateCacheAdapter } from './cache';
+export type { PaginateErrorCode } from './errors';
+export type { PaginateGuardOptions } from './guard';
+export type { LeanDoc, ProjectedDoc, SchemaPath } from './projection';
+export type { PaginationLinkOptions, PaginationLinks } from './links';
+export type { ExportColumn, ExportFormat, ExportStreamOptions } from './exportStream';
+export type {
+  DateHistogramFacet,
+  DateHistogramInterval,
+  FacetBucket,
+  FacetResults,
+  FacetSpec,
+  RangeFacet,
+  TermsFacet,
+} from './facets';
+export type { DistanceUnit, NearOptions } from './geo';
+export type { PopulateSpec } from './populate';
+export type { AliasSpec } from './alias';
+export type {
+  PaginateQueryIssue,
+  PaginateQueryIssueCode,
+  ParsedPaginateQuery,
+  ParsePaginateQueryConfig,
+} from './queryParser';
+export type {
+  SoftDeleteDocument,
+  SoftDeleteModel,
+  SoftDeleteOptions,
+  SoftDeleteQueryHelpers,
+  SoftDeleteQueryOptions,
+  SoftDeleteStatics,
+} from './softDelete';
+export type { TenantScopeOptions } from './tenantScope';
+export type {
+  EncryptedFieldsOptions,
+  EncryptedFieldsStatics,
+  EncryptionKeyProvider,
+  KeyProviderOptions,
+  RotateKeysOptions,
+  RotateKeysResult,
+} from './encryptedFields';
+export type {
+  AuditChange,
+  AuditEntry,
+  AuditOperation,
+  AuditTrailMethods,
+  AuditTrailOptions,
+  AuditTrailStatics,
+} from './auditTrail';
+export type {
+  ToJSONOptions,
+  ToJSONPluginOptions,
+  ToJSONView,
+  PluginSchema,
+  Serializer,
+  SerializerName,
+  SerializableType,
+  Mask,
+  MaskName,
+} from './toJSON';
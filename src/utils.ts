@@ -0,0 +1,91 @@
+import { Model, PipelineStage, Schema } from 'mongoose';
+
+// Stages that must stay first in a pipeline
+export const LEADING_STAGES = ['$search', '$searchMeta', '$vectorSearch'];
+
+// Conditions a scoping plugin adds to the reads of a model, e.g. softDelete's `{ deletedAt: null }`
+export type ScopeFilter = (model: Model<any>) => Record<string, any> | undefined;
+
+// Schemas whose queries are scoped by middleware (soft delete, tenant); metadata counts would ignore the scope.
+// A scope read from the async context (the current tenant) also provides a key separating cached results.
+const scopedSchemas = new WeakMap<Schema<any>, { filters: ScopeFilter[]; getScopeKey?: () => unknown }>();
+
+export const markScopedSchema = (schema: Schema<any>, filter: ScopeFilter, getScopeKey?: () => unknown): void => {
+  const scope = scopedSchemas.get(schema) || { filters: [] };
+  scope.filters.push(filter);
+  if (getScopeKey) scope.getScopeKey = getScopeKey;
+  scopedSchemas.set(schema, scope);
+};
+
+export const isScopedSchema = (schema: Schema<any>): boolean => scopedSchemas.has(schema);
+
+export const getScopeKey = (schema: Schema<any>): unknown => scopedSchemas.get(schema)?.getScopeKey?.();
+
+// Whether the scope has a key (tenantScope), unlike softDelete's which includeDeleted lifts
+export const hasScopeKey = (schema: Schema<any>): boolean => Boolean(scopedSchemas.get(schema)?.getScopeKey);
+
+/**
+ * The scope conditions of a model's reads, for pipelines its middleware does not see (`$lookup` into it).
+ * Discriminators are scoped by the plugins of their base model's schema.
+ */
+export const getScopeFilter = (model: Model<any>): Record<string, any> | undefined => {
+  const schema = model.baseModelName ? model.db.model(model.baseModelName).schema : model.schema;
+  const conditions = (scopedSchemas.get(schema)?.filters || [])
+    .map((filter) => filter(model))
+    .filter((condition): condition is Record<string, any> => Boolean(condition));
+  if (conditions.length === 0) return undefined;
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+};
+
+// Plain objects, not arrays, Dates or BSON values (ObjectId, Decimal128, ...)
+export const isPlainObject = (value: unknown): value is Record<string, any> =>
+  Object.prototype.toString.call(value) === '[object Object]' && !(value as any)._bsontype;
+
+// `path` is `parent` or one of its subpaths
+export const isWithinPath = (path: string, parent: string): boolean =>
+  path === parent || path.startsWith(`${parent}.`);
+
+// Escape user input so it matches literally inside a RegExp
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Split the `fields` option (`name,score` or a list of paths) into trimmed entries
+export const parseFields = (fields?: string | readonly string[]): string[] =>
+  (typeof fields === 'string' ? fields.split(',') : [...(fields || [])]).map((field) => field.trim()).filter(Boolean);
+
+// Turn a `fields` list into a `$project` stage body
+export const buildProjection = (selectFields: string[]): Record<string, 0 | 1> => {
+  const projection: Record<string, 0 | 1> = {};
+  selectFields
+    .map((field) => field.trim())
+    .filter(Boolean)
+    .forEach((field) => {
+      if (field.startsWith('-')) projection[field.slice(1)] = 0;
+      else projection[field] = 1;
+    });
+  return projection;
+};
+
+/**
+ * Prepend a `$match` to a pipeline while keeping it valid: `$geoNear` must stay the first
+ * stage, so the condition is merged into its `query`; a leading `$match` (which may hold a
+ * `$text` search) is merged with `$and`; Atlas search stages keep their place.
+ */
+export const prependMatchStage = (pipeline: PipelineStage[], match: Record<string, any>): PipelineStage[] => {
+  const [firstStage, ...restStages] = pipeline;
+
+  if (firstStage && '$geoNear' in firstStage) {
+    const geoNear = firstStage.$geoNear;
+    const query = geoNear.query ? { $and: [geoNear.query, match] } : match;
+    return [{ $geoNear: { ...geoNear, query } }, ...restStages];
+  }
+
+  if (firstStage && '$match' in firstStage) {
+    return [{ $match: { $and: [firstStage.$match, match] } }, ...restStages];
+  }
+
+  if (firstStage && LEADING_STAGES.some((stage) => stage in firstStage)) {
+    return [firstStage, { $match: match }, ...restStages];
+  }
+
+  return [{ $match: match }, ...pipeline];
+};
@@ -0,0 +1,44 @@
+import { Schema } from 'mongoose';
+import { AliasSpec, paginate, parsePaginateQuery, toJSONPlugin } from '../src';
+import { TestContactModel } from './test.model';
+
+describe('Schema Alias Tests', () => {
+  const register = (alias: AliasSpec, other?: AliasSpec) => {
+    const schema = new Schema({ name: String, rank: Number, address: { city: String } });
+    schema.plugin(paginate, { alias });
+    if (other) schema.plugin(toJSONPlugin, { alias: other });
+  };
+
+  it('1. should accept the string and object forms', () => {
+    expect(() => register('name:fullName; address.city:city')).not.toThrow();
+    expect(() => register({ name: 'fullName' }, { 'address.city': 'city' })).not.toThrow();
+    // Repeating an alias across plugins is not a conflict
+    expect(() => register('name:fullName', { name: 'fullName' })).not.toThrow();
+  });
+
+  it('2. should reject invalid and colliding aliases at registration', () => {
+    expect(() => register('name')).toThrow('alias: invalid entry "name". Expected "path:alias".');
+    expect(() => register({ name: '' })).toThrow('alias: the alias of "name" must be a non-empty string.');
+    expect(() => register('nope:other')).toThrow('alias: "nope" is not a path of the schema.');
+    expect(() => register('name:id')).toThrow('alias: "id" cannot be used as an alias.');
+    expect(() => register('name:fullName', { name: 'displayName' })).toThrow(
+      'alias: "name" has two aliases, "fullName" and "displayName".',
+    );
+    expect(() => register('name:label;rank:label')).toThrow('alias: "name" and "rank" collide on the alias "label".');
+    expect(() => register('name:rank')).toThrow('alias: "rank" (for "name") collides with the schema path "rank".');
+    expect(() => register('name:info;address.city:info.city')).toThrow(
+      'alias: "info" (for "name") collides with the alias "info.city".',
+    );
+  });
+
+  it('3. parsePaginateQuery should accept aliases and emit schema paths', () => {
+    const { filter, options } = parsePaginateQuery(
+      { fullName: 'Ann', 'city[in]': 'Oslo,Rome', sortBy: 'position:desc', fields: 'fullName,city' },
+      TestContactModel.schema,
+      { filterableFields: ['fullName', 'address.city'], sortableFields: ['rank'] },
+    );
+
+    expect(filter).toEqual({ name: 'Ann', 'address.city': { $in: ['Oslo', 'Rome'] } });
+    expect(options).toEqual({ sortBy: 'rank:desc', fields: 'name,address.city' });
+  });
+});
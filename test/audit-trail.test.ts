@@ -0,0 +1,136 @@
+import { runWithActor } from '../src';
+import { connect, clearDatabase, close } from './test-utils';
+import { TestInvoiceModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Audit Trail Plugin Tests', () => {
+  beforeAll(connect);
+  afterEach(clearDatabase);
+  afterAll(close);
+
+  const createInvoice = () =>
+    TestInvoiceModel.create({ number: 'INV-1', amount: 100, customer: { name: 'Acme', taxId: 'TX-1' } });
+
+  const getEntries = async (id: unknown) => (await TestInvoiceModel.history(id, { limit: 100 })).results as any[];
+
+  it('1. save() should record a create entry and field-level update diffs', async () => {
+    const invoice = await createInvoice();
+    invoice.amount = 150;
+    invoice.status = 'sent';
+    await invoice.save();
+
+    const [update, create] = await getEntries(invoice._id);
+
+    expect(create.version).toBe(1);
+    expect(create.operation).toBe('create');
+    expect(create.changes).toEqual(
+      expect.arrayContaining([
+        { path: 'number', after: 'INV-1' },
+        { path: 'customer.name', after: 'Acme' },
+      ]),
+    );
+    expect(update.version).toBe(2);
+    expect(update.operation).toBe('update');
+    expect(update.method).toBe('save');
+    expect(update.changes).toEqual([
+      { path: 'amount', before: 100, after: 150 },
+      { path: 'status', before: 'draft', after: 'sent' },
+    ]);
+  });
+
+  it('2. should record the actor from runWithActor', async () => {
+    const invoice = await runWithActor('user-42', () => createInvoice());
+    await runWithActor('user-7', () => TestInvoiceModel.updateOne({ _id: invoice._id }, { $set: { amount: 90 } }));
+
+    const [update, create] = await getEntries(invoice._id);
+
+    expect(create.actor).toBe('user-42');
+    expect(update.actor).toBe('user-7');
+    expect(update.method).toBe('updateOne');
+  });
+
+  it('3. query updates and deletes should be recorded per document', async () => {
+    const invoice = await createInvoice();
+    const other = await TestInvoiceModel.create({ number: 'INV-2', amount: 200 });
+
+    await TestInvoiceModel.updateMany({}, { $set: { status: 'paid' } });
+    await TestInvoiceModel.findOneAndUpdate({ _id: invoice._id }, { $inc: { amount: 5 } });
+    await TestInvoiceModel.deleteOne({ _id: other._id });
+
+    const invoiceEntries = await getEntries(invoice._id);
+    const otherEntries = await getEntries(other._id);
+
+    expect(invoiceEntries.map((entry) => entry.method)).toEqual(['findOneAndUpdate', 'updateMany', 'save']);
+    expect(invoiceEntries[0].changes).toEqual([{ path: 'amount', before: 100, after: 105 }]);
+    expect(otherEntries.map((entry) => entry.operation)).toEqual(['delete', 'update', 'create']);
+    expect(otherEntries[0].changes).toEqual(expect.arrayContaining([{ path: 'number', before: 'INV-2' }]));
+  });
+
+  it('4. private fields should be redacted in the stored diff', async () => {
+    const invoice = await createInvoice();
+    invoice.set('customer.taxId', 'TX-2');
+    await invoice.save();
+
+    const [update, create] = await getEntries(invoice._id);
+
+    const redacted = { path: 'customer.taxId', before: '[REDACTED]', after: '[REDACTED]', redacted: true };
+    expect(create.changes).toContainEqual(redacted);
+    expect(update.changes).toEqual([redacted]);
+  });
+
+  it('5. history() should paginate and revertTo() should restore an earlier version', async () => {
+    const invoice = await createInvoice();
+    invoice.amount = 200;
+    await invoice.save();
+    invoice.set({ amount: 300, status: 'sent' });
+    await invoice.save();
+
+    const page = await TestInvoiceModel.history(invoice._id, { limit: 2 });
+    expect(page.totalResults).toBe(3);
+    expect(page.results.map((entry) => entry.version)).toEqual([3, 2]);
+
+    await invoice.revertTo(1);
+    const reverted = await TestInvoiceModel.findById(invoice._id);
+
+    expect(reverted?.amount).toBe(100);
+    expect(reverted?.status).toBe('draft');
+    expect((await getEntries(invoice._id))[0].version).toBe(4);
+    await expect(invoice.revertTo(99)).rejects.toThrow('auditTrail: version 99 not found');
+  });
+
+  it('6. doc.deleteOne() should record a delete entry from the last saved state', async () => {
+    const invoice = await createInvoice();
+    invoice.amount = 150;
+    await invoice.save();
+    // Unsaved changes are not part of the deleted state
+    invoice.status = 'sent';
+    await invoice.deleteOne();
+
+    const [deleted] = await getEntries(invoice._id);
+
+    expect(deleted.version).toBe(3);
+    expect(deleted.operation).toBe('delete');
+    expect(deleted.method).toBe('deleteOne');
+    expect(deleted.changes).toEqual(
+      expect.arrayContaining([
+        { path: 'amount', before: 150 },
+        { path: 'status', before: 'draft' },
+      ]),
+    );
+
+    const loaded = await TestInvoiceModel.create({ number: 'INV-2', amount: 200 });
+    await (await TestInvoiceModel.findById(loaded._id))!.deleteOne();
+    expect((await getEntries(loaded._id)).map((entry) => entry.operation)).toEqual(['delete', 'create']);
+  });
+
+  it('7. concurrent writes should get distinct, consecutive versions', async () => {
+    const invoice = await createInvoice();
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((amount) => TestInvoiceModel.updateOne({ _id: invoice._id }, { $inc: { amount } })),
+    );
+
+    const versions = (await getEntries(invoice._id)).map((entry) => entry.version);
+    expect(versions).toEqual([6, 5, 4, 3, 2, 1]);
+  });
+});
@@ -0,0 +1,69 @@
+import { connect, clearDatabase, close } from './test-utils';
+import { createLRUCache } from '../src';
+import { TestNoteModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Paginate Cache Tests', () => {
+  beforeAll(connect);
+  // clearDatabase bypasses middleware, so the cache is invalidated through the model as well
+  afterEach(async () => {
+    await clearDatabase();
+    await TestNoteModel.deleteMany({});
+  });
+  afterAll(close);
+
+  // Raw inserts skip middleware: a cached page does not see them until a model write invalidates it
+  const insertRaw = (title: string) => TestNoteModel.collection.insertOne({ title, pinned: false });
+
+  it('1. LRU adapter should evict the least recently used entry and expire entries', async () => {
+    const cache = createLRUCache({ max: 2 });
+    cache.set('a', '1');
+    cache.set('b', '2');
+    cache.get('a');
+    cache.set('c', '3');
+
+    expect(cache.get('a')).toBe('1');
+    expect(cache.get('b')).toBeUndefined();
+
+    cache.set('d', '4', -1);
+    expect(cache.get('d')).toBeUndefined();
+    expect(() => createLRUCache({ max: 0 })).toThrow('paginate: invalid cache max "0". Must be a positive integer.');
+  });
+
+  it('2. should serve repeated queries from the cache until the model writes', async () => {
+    await TestNoteModel.create({ title: 'First' });
+    const first = await TestNoteModel.paginate({}, { sortBy: 'title:asc' });
+    await insertRaw('Second');
+    const cached = await TestNoteModel.paginate({}, { sortBy: 'title:asc' });
+
+    expect(cached).toEqual(first);
+    expect(cached.totalResults).toBe(1);
+
+    await TestNoteModel.create({ title: 'Third' });
+    const fresh = await TestNoteModel.paginate({}, { sortBy: 'title:asc' });
+    expect(fresh.results.map((note) => note.title)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('3. update and delete queries should invalidate cached pages', async () => {
+    await TestNoteModel.create([{ title: 'A' }, { title: 'B' }]);
+    await TestNoteModel.paginate({ pinned: true });
+
+    await TestNoteModel.updateMany({ title: 'A' }, { pinned: true });
+    expect((await TestNoteModel.paginate({ pinned: true })).totalResults).toBe(1);
+
+    await TestNoteModel.deleteOne({ title: 'A' });
+    expect((await TestNoteModel.paginate({ pinned: true })).totalResults).toBe(0);
+  });
+
+  it('4. cache: false should bypass the cache and cacheKey should name the entry', async () => {
+    await TestNoteModel.create({ title: 'A' });
+    await TestNoteModel.paginate({}, { cacheKey: 'all-notes' });
+    await insertRaw('B');
+
+    expect((await TestNoteModel.paginate({}, { cache: false })).totalResults).toBe(2);
+    const named = await TestNoteModel.paginate({ title: 'B' }, { cacheKey: 'all-notes' });
+    expect(named.results.map((note) => note.title)).toEqual(['A']);
+    expect((await TestNoteModel.paginate({}, { limit: 5 })).totalResults).toBe(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { createHmac } from 'crypto';
+import { Types } from 'mongoose';
+import { buildKeysetFilter, decodeCursor, encodeCursor } from '../src/cursor';
+
+describe('Cursor Encoding Tests', () => {
+  const id = new Types.ObjectId();
+  const createdAt = new Date('2024-01-02T03:04:05.000Z');
+
+  it('1. should round-trip Dates and ObjectIds through an opaque cursor', () => {
+    const cursor = encodeCursor({ keys: ['score', 'createdAt', '_id'], values: [1.5, createdAt, id] });
+    const payload = decodeCursor(cursor);
+
+    expect(cursor).not.toContain('createdAt');
+    expect(payload.keys).toEqual(['score', 'createdAt', '_id']);
+    expect(payload.values.shift()).toBe(1.5);
+    expect(payload.values[0]).toBeInstanceOf(Date);
+    expect(payload.values[0].getTime()).toBe(createdAt.getTime());
+    expect(payload.values[1].toString()).toBe(id.toString());
+  });
+
+  it('2. should reject cursors signed with another secret or edited by hand', () => {
+    const cursor = encodeCursor({ keys: ['_id'], values: [id] }, 'secret-a');
+
+    expect(() => decodeCursor(cursor, 'secret-b')).toThrow(/invalid cursor signature/i);
+    expect(() => decodeCursor(`A${cursor}`, 'secret-a')).toThrow(/invalid cursor signature/i);
+    expect(() => decodeCursor('not-a-cursor', 'secret-a')).toThrow(/invalid cursor format/i);
+  });
+
+  it('3. should build a keyset condition honoring each field direction', () => {
+    const filter = buildKeysetFilter(
+      [
+        ['score', -1],
+        ['_id', 1],
+      ],
+      [100, id],
+      'after',
+    );
+
+    expect(filter).toEqual({
+      $or: [{ score: { $lt: 100 } }, { score: null }, { score: 100, _id: { $gt: id } }],
+    });
+  });
+
+  it('4. should flip comparisons when paging backwards', () => {
+    const filter = buildKeysetFilter([['name', 1]], ['Bob'], 'before');
+
+    expect(filter).toEqual({ $or: [{ name: { $lt: 'Bob' } }, { name: null }] });
+  });
+
+  it('5. without a secret, cursors should be signed with a random per-process secret and warn once', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    jest.isolateModules(() => {
+      const cursorModule: typeof import('../src/cursor') = require('../src/cursor');
+      const cursor = cursorModule.encodeCursor({ keys: ['_id'], values: [id] });
+      expect(cursorModule.decodeCursor(cursor).keys).toEqual(['_id']);
+
+      // A cursor signed with a guessable secret is rejected
+      const [body] = cursor.split('.');
+      const forged = `${body}.${createHmac('sha256', 'mongoose-utils-kit:cursor').update(body).digest('base64url')}`;
+      expect(() => cursorModule.decodeCursor(forged)).toThrow(/invalid cursor signature/i);
+    });
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toMatch(/no cursorSecret or PAGINATE_CURSOR_SECRET is set/);
+    warn.mockRestore();
+  });
+
+  it('6. should page past null and missing sort values in both directions', () => {
+    const sort: [string, 1 | -1][] = [
+      ['city', 1],
+      ['_id', 1],
+    ];
+
+    // Nulls sort first: after a null boundary come the other nulls, then every value
+    expect(buildKeysetFilter(sort, [null, id], 'after')).toEqual({
+      $or: [{ city: { $ne: null } }, { city: null, _id: { $gt: id } }],
+    });
+    // Before a null boundary, only the nulls with a smaller _id
+    expect(buildKeysetFilter(sort, [null, id], 'before')).toEqual({ $or: [{ city: null, _id: { $lt: id } }] });
+    // Descending, the nulls come last and follow every value
+    expect(buildKeysetFilter([['city', -1]], ['Oslo'], 'after')).toEqual({
+      $or: [{ city: { $lt: 'Oslo' } }, { city: null }],
+    });
+  });
+});
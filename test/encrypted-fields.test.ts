@@ -0,0 +1,171 @@
+import { randomBytes } from 'crypto';
+import { Schema } from 'mongoose';
+import { connect, clearDatabase, close } from './test-utils';
+import { createKeyProvider, encryptedFields, ToJSONOptions } from '../src';
+import { TestCustomerModel, customerKeyring } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Encrypted Fields Plugin Tests', () => {
+  beforeAll(connect);
+  afterEach(async () => {
+    customerKeyring.currentKeyId = 'k1';
+    await clearDatabase();
+  });
+  afterAll(close);
+
+  const getRaw = (id: unknown) => TestCustomerModel.collection.findOne({ _id: id as any });
+
+  it('1. should store ciphertext, decrypt on load and leave encrypted paths out of toJSON', async () => {
+    const customer = await TestCustomerModel.create({ name: 'Ann', nationalId: '123456789', taxId: 'DE-1' });
+    expect(customer.nationalId).toBe('123456789');
+    expect(customer.isModified()).toBe(false);
+
+    const raw = await getRaw(customer._id);
+    expect(raw!.nationalId).toMatch(/^enc:v1:k1:/);
+    expect(raw!.taxId).toMatch(/^enc:v1:k1:/);
+    expect(raw!.nationalId_bidx).toEqual(expect.any(String));
+
+    const loaded = await TestCustomerModel.findById(customer._id);
+    expect(loaded!.taxId).toBe('DE-1');
+    expect(loaded!.toJSON()).toEqual({ id: customer._id.toString(), name: 'Ann' });
+
+    const optedIn: ToJSONOptions = { includeEncrypted: ['taxId'] };
+    expect(loaded!.toJSON(optedIn)).toEqual({ id: customer._id.toString(), name: 'Ann', taxId: 'DE-1' });
+
+    const lean = await TestCustomerModel.findById(customer._id).lean();
+    expect(lean!.nationalId).toBe('123456789');
+  });
+
+  it('2. equality filters should match through the blind index, including in paginate', async () => {
+    await TestCustomerModel.create([
+      { name: 'Ann', nationalId: '123456789' },
+      { name: 'Ben', nationalId: '987654321' },
+      { name: 'Cai' },
+    ]);
+
+    expect((await TestCustomerModel.findOne({ nationalId: '987654321' }))!.name).toBe('Ben');
+    expect(await TestCustomerModel.countDocuments({ nationalId: { $in: ['123456789', '987654321'] } })).toBe(2);
+    expect(await TestCustomerModel.countDocuments({ nationalId: null })).toBe(1);
+
+    const page = await TestCustomerModel.paginate({ nationalId: '123456789' }, { sortBy: 'name:asc' });
+    expect(page.results.map((customer: any) => customer.name)).toEqual(['Ann']);
+    const facetPage = await TestCustomerModel.paginate({ nationalId: '123456789' }, { count: 'facet' });
+    expect(facetPage.totalResults).toBe(1);
+
+    await expect(TestCustomerModel.find({ nationalId: /^123/ })).rejects.toThrow(
+      'encryptedFields: "nationalId" can only be compared for equality.',
+    );
+    await expect(TestCustomerModel.find({ taxId: 'DE-1' })).rejects.toThrow(
+      'encryptedFields: "taxId" is encrypted without a blind index and cannot be queried.',
+    );
+  });
+
+  it('3. updates and insertMany should encrypt, and validators should see the plaintext', async () => {
+    const [customer] = await TestCustomerModel.insertMany([{ name: 'Ann', nationalId: '123456789' }]);
+    expect(customer.nationalId).toBe('123456789');
+
+    await TestCustomerModel.updateOne({ _id: customer._id }, { $set: { nationalId: '111111111', taxId: 'FR-9' } });
+    const raw = await getRaw(customer._id);
+    expect(raw!.taxId).toMatch(/^enc:v1:/);
+    expect((await TestCustomerModel.findOne({ nationalId: '111111111' }))!.taxId).toBe('FR-9');
+
+    await expect(
+      TestCustomerModel.updateOne({ _id: customer._id }, { nationalId: 'abc' }, { runValidators: true }),
+    ).rejects.toThrow('Path `nationalId` is invalid (abc)');
+    await expect(TestCustomerModel.updateOne({}, { $push: { taxId: 'x' } })).rejects.toThrow(
+      'encryptedFields: $push cannot write the encrypted path "taxId" of TestCustomer.',
+    );
+    await expect(TestCustomerModel.insertMany([{ name: 'Bad', nationalId: 'abc' }])).rejects.toThrow(
+      'Path `nationalId` is invalid (abc)',
+    );
+  });
+
+  it('4. rotateKeys should re-encrypt values under old keys and encrypt plaintext, in batches', async () => {
+    const [ann, ben] = await TestCustomerModel.create([
+      { name: 'Ann', nationalId: '123456789', taxId: 'DE-1' },
+      { name: 'Ben', taxId: 'DE-2' },
+    ]);
+    // Written before the plugin was added
+    const { insertedId } = await TestCustomerModel.collection.insertOne({ name: 'Cai', taxId: 'DE-3' });
+
+    customerKeyring.currentKeyId = 'k2';
+    expect(await TestCustomerModel.rotateKeys({ batchSize: 2 })).toEqual({ rotated: 3 });
+    expect(await TestCustomerModel.rotateKeys()).toEqual({ rotated: 0 });
+
+    for (const id of [ann._id, ben._id, insertedId]) {
+      expect((await getRaw(id))!.taxId).toMatch(/^enc:v1:k2:/);
+    }
+    delete customerKeyring.keys.k1;
+    try {
+      expect((await TestCustomerModel.findOne({ nationalId: '123456789' }))!.taxId).toBe('DE-1');
+      expect((await TestCustomerModel.findById(insertedId))!.taxId).toBe('DE-3');
+    } finally {
+      customerKeyring.keys.k1 = randomBytes(32);
+    }
+  });
+
+  it('5. should reject invalid keys and paths at registration', () => {
+    const keyProvider = createKeyProvider({ keys: { k1: randomBytes(32) }, currentKeyId: 'k1' });
+
+    expect(() => createKeyProvider({ keys: { k1: randomBytes(16) }, currentKeyId: 'k1' })).toThrow(
+      'encryptedFields: key "k1" must be 32 bytes, got 16.',
+    );
+    expect(() => createKeyProvider({ keys: { k1: randomBytes(32) }, currentKeyId: 'k2' })).toThrow(
+      'encryptedFields: the current key "k2" is not one of the keys.',
+    );
+    expect(() => new Schema({ age: { type: Number, encrypt: true } }).plugin(encryptedFields, { keyProvider })).toThrow(
+      'encryptedFields: "age" must be a String path to be encrypted.',
+    );
+    expect(() =>
+      new Schema({ ssn: { type: String, encrypt: { blindIndex: true } } }).plugin(encryptedFields, { keyProvider }),
+    ).toThrow('encryptedFields: blind indexes need a key provider with getBlindIndexKey().');
+  });
+
+  it('6. should reject facets on encrypted paths, whose buckets would be decrypted', async () => {
+    await TestCustomerModel.create({ name: 'Ann', nationalId: '123456789', taxId: 'DE-1' });
+
+    await expect(TestCustomerModel.paginate({}, { facets: { taxId: { type: 'terms' } } })).rejects.toThrow(
+      'paginate: invalid facet "taxId": "taxId" is encrypted.',
+    );
+    const facets = { ids: { type: 'terms', path: 'nationalId' } } as const;
+    await expect(TestCustomerModel.paginate({}, { facets })).rejects.toThrow(
+      'paginate: invalid facet "ids": "nationalId" is encrypted.',
+    );
+  });
+
+  it('7. paginate rows without the toJSON rules should leave encrypted paths out unless listed', async () => {
+    await TestCustomerModel.create({ name: 'Ann', nationalId: '123456789', taxId: 'DE-1' });
+
+    const raw = await TestCustomerModel.paginate({}, { toJSON: false });
+    expect(raw.results[0]).toMatchObject({ name: 'Ann' });
+    expect(raw.results[0]).not.toHaveProperty('taxId');
+    expect(raw.results[0]).not.toHaveProperty('nationalId');
+
+    const aggregation = [{ $match: {} }];
+    const optedIn = await TestCustomerModel.paginate({}, { toJSON: false, aggregation, includeEncrypted: ['taxId'] });
+    expect(optedIn.results[0]).toMatchObject({ name: 'Ann', taxId: 'DE-1' });
+    expect(optedIn.results[0]).not.toHaveProperty('nationalId');
+  });
+
+  it('8. insertMany should always encrypt, and validators should not skip forged ciphertext', async () => {
+    const [lean] = await TestCustomerModel.insertMany([{ name: 'Ann', nationalId: '123456789' }], { lean: true });
+    expect((await getRaw(lean._id))!.nationalId).toMatch(/^enc:v1:k1:/);
+
+    await expect(TestCustomerModel.insertMany([{ name: 'Bad', nationalId: 'abc' }], { lean: true })).rejects.toThrow(
+      'Path `nationalId` is invalid (abc)',
+    );
+    const batch = [
+      { name: 'Bob', nationalId: '987654321' },
+      { name: 'Bad', nationalId: 'abc' },
+    ];
+    await expect(TestCustomerModel.insertMany(batch, { ordered: false })).rejects.toThrow(
+      'Path `nationalId` is invalid (abc)',
+    );
+    expect(await TestCustomerModel.countDocuments()).toBe(1);
+
+    await expect(TestCustomerModel.create({ name: 'Eve', nationalId: 'enc:v1:k1:a:b:c' })).rejects.toThrow(
+      'Path `nationalId` is invalid',
+    );
+  });
+});
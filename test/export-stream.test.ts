@@ -0,0 +1,121 @@
+import { Readable } from 'stream';
+import { connect, clearDatabase, close } from './test-utils';
+import { TestContactModel, TestUserModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Export Stream Tests', () => {
+  beforeAll(connect);
+  afterEach(clearDatabase);
+  afterAll(close);
+
+  const seedUsers = () =>
+    TestUserModel.insertMany([
+      { name: 'Alice', email: 'alice@example.com', password: 'p1', score: 100, profile: { age: 30, city: 'Paris' } },
+      { name: 'Bob, Jr.', email: 'bob@example.com', password: 'p2', score: 200, profile: { city: 'Rome "Centro"' } },
+      { name: 'Charlie', email: 'charlie@example.com', password: 'p3', score: 300 },
+    ]);
+
+  const readAll = async (stream: Readable): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString('utf8');
+  };
+
+  it('1. ndjson should stream one toJSON-serialized row per line', async () => {
+    await seedUsers();
+    const output = await readAll(TestUserModel.exportStream({ score: { $gte: 200 } }, { sortBy: 'score:asc' }));
+    const rows = output.trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(rows.map((row) => row.name)).toEqual(['Bob, Jr.', 'Charlie']);
+    expect(typeof rows[0].id).toBe('string');
+    expect(rows[0]._id).toBeUndefined();
+    expect(rows[0].password).toBeUndefined();
+  });
+
+  it('2. csv should flatten nested paths into dotted headers in the configured order', async () => {
+    await seedUsers();
+    const stream = TestUserModel.exportStream(
+      {},
+      { sortBy: 'score:asc' },
+      { format: 'csv', columns: ['name', { path: 'profile.city', header: 'City' }, 'score', 'profile.age'] },
+    );
+    const lines = (await readAll(stream)).trim().split('\n');
+
+    expect(lines).toEqual([
+      'name,City,score,profile.age',
+      'Alice,Paris,100,', // profile.age is private
+      '"Bob, Jr.","Rome ""Centro""",200,',
+      'Charlie,,300,',
+    ]);
+  });
+
+  it('3. csv headers should default to the flattened paths of the first row', async () => {
+    await seedUsers();
+    const stream = TestUserModel.exportStream({ name: 'Alice' }, { fields: 'name,profile' }, { format: 'csv' });
+    const [header, row] = (await readAll(stream)).trim().split('\n');
+
+    expect(header.split(',')).toEqual(expect.arrayContaining(['name', 'profile.city', 'id']));
+    expect(row).toContain('Paris');
+  });
+
+  it('4. json should stream an array on the aggregation path with the alias applied', async () => {
+    await seedUsers();
+    const stream = TestUserModel.exportStream(
+      { score: { $lte: 200 } },
+      {
+        aggregation: [{ $addFields: { double: { $multiply: ['$score', 2] } } }],
+        sortBy: 'score:desc',
+        alias: 'double::twice',
+      },
+      { format: 'json', batchSize: 1 },
+    );
+    const rows = JSON.parse(await readAll(stream));
+
+    expect(rows.map((row: any) => row.twice)).toEqual([400, 200]);
+    expect(rows[0].password).toBeUndefined();
+  });
+
+  it('5. an unknown format should throw', () => {
+    expect(() => TestUserModel.exportStream({}, {}, { format: 'xml' as any })).toThrow(
+      'exportStream: invalid format "xml". Expected "ndjson", "csv" or "json".',
+    );
+  });
+
+  it('6. csv should escape cells spreadsheets would run as formulas unless escapeFormulas is false', async () => {
+    await TestUserModel.insertMany([
+      { name: '=HYPERLINK("http://x")', email: '@a', password: 'p1', score: -5 },
+      { name: '+1', email: '-b@example.com', password: 'p2', score: 1 },
+    ]);
+    const columns = ['name', 'email', 'score'];
+
+    const escaped = TestUserModel.exportStream({}, { sortBy: 'score:asc' }, { format: 'csv', columns });
+    expect((await readAll(escaped)).trim().split('\n')).toEqual([
+      'name,email,score',
+      `"'=HYPERLINK(""http://x"")",'@a,-5`,
+      `'+1,'-b@example.com,1`,
+    ]);
+
+    const raw = TestUserModel.exportStream(
+      {},
+      { sortBy: 'score:asc' },
+      { format: 'csv', columns, escapeFormulas: false },
+    );
+    expect((await readAll(raw)).trim().split('\n')[2]).toBe('+1,-b@example.com,1');
+  });
+
+  it('7. schema-level aliases should be accepted in filter, sortBy and fields', async () => {
+    await TestContactModel.insertMany([
+      { name: 'Ann', rank: 2, address: { city: 'Oslo' } },
+      { name: 'Ben', rank: 1, address: { city: 'Oslo' } },
+      { name: 'Cai', rank: 3, address: { city: 'Rome' } },
+    ]);
+    const stream = TestContactModel.exportStream(
+      { city: 'Oslo' },
+      { sortBy: 'position:asc', fields: 'fullName,position' },
+      { format: 'csv', columns: ['fullName', 'position'] },
+    );
+
+    expect((await readAll(stream)).trim().split('\n')).toEqual(['fullName,position', 'Ben,1', 'Ann,2']);
+  });
+});
@@ -0,0 +1,65 @@
+import { connect, clearDatabase, close } from './test-utils';
+import { PaginateError } from '../src';
+import { TestEventModel, TestUserModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Paginate Guard Tests', () => {
+  beforeAll(connect);
+  afterEach(clearDatabase);
+  afterAll(close);
+
+  const seedEvents = () =>
+    TestEventModel.insertMany([
+      { name: 'Standup', kind: 'meeting', priority: 1, startsAt: new Date('2024-05-01') },
+      { name: 'Retro', kind: 'meeting', priority: 2, startsAt: new Date('2024-05-03') },
+      { name: 'Launch', kind: 'release', priority: 3, startsAt: new Date('2024-05-02') },
+    ]);
+
+  const codeOf = async (promise: Promise<unknown>): Promise<string | undefined> => {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(PaginateError);
+      return (error as PaginateError).code;
+    }
+    return undefined;
+  };
+
+  it('1. should reject limits, fetch-all, deep pages and sorts outside the guard', async () => {
+    expect(await codeOf(TestEventModel.paginate({}, { limit: 51, sortBy: 'startsAt:desc' }))).toBe('LIMIT_EXCEEDED');
+    expect(await codeOf(TestEventModel.paginate({}, { page: -1, sortBy: 'startsAt:desc' }))).toBe(
+      'FETCH_ALL_DISABLED',
+    );
+    expect(await codeOf(TestEventModel.paginate({}, { page: 12, limit: 10, sortBy: 'startsAt:desc' }))).toBe(
+      'SKIP_EXCEEDED',
+    );
+    expect(await codeOf(TestEventModel.paginate({}, { sortBy: 'kind:asc' }))).toBe('SORT_NOT_ALLOWED');
+    expect(await codeOf(TestEventModel.paginateCursor({}, { limit: 100 }))).toBe('LIMIT_EXCEEDED');
+    await expect(TestEventModel.paginate({}, { sortBy: 'kind:asc' })).rejects.toThrow(
+      'paginate: sorting by "kind" is not allowed.',
+    );
+  });
+
+  it('2. strictIndexSort should accept sorts served by an index, after equality conditions', async () => {
+    await seedEvents();
+    const meetings = await TestEventModel.paginate({ kind: 'meeting' }, { sortBy: 'startsAt:asc' });
+
+    expect(meetings.results.map((event) => event.name)).toEqual(['Standup', 'Retro']);
+    expect(await codeOf(TestEventModel.paginate({}, { sortBy: 'startsAt:desc' }))).toBe('SORT_NOT_INDEXED');
+    expect(await codeOf(TestEventModel.paginate({ kind: 'meeting' }, { sortBy: 'priority:desc' }))).toBe(
+      'SORT_NOT_INDEXED',
+    );
+    await expect(TestEventModel.paginate({}, { sortBy: 'priority:asc' })).rejects.toThrow(
+      'paginate: no index of TestEvent serves the sort "priority:asc".',
+    );
+  });
+
+  it('3. option errors should be PaginateErrors with the INVALID_OPTION code, keeping their messages', async () => {
+    const error = TestUserModel.paginate({}, { limit: 0 });
+
+    await expect(error).rejects.toThrow('paginate: invalid limit "0". Must be a positive integer.');
+    expect(await codeOf(TestUserModel.paginate({}, { limit: 0 }))).toBe('INVALID_OPTION');
+    expect(await codeOf(TestUserModel.paginateCursor({}, { after: 'nope' }))).toBe('INVALID_CURSOR');
+  });
+});
@@ -0,0 +1,54 @@
+import { QueryResult, buildLinkHeader, buildPaginationHeaders, buildPaginationLinks } from '../src';
+
+describe('Pagination Links Tests', () => {
+  const result = (overrides: Partial<QueryResult<unknown>> = {}): QueryResult<unknown> => ({
+    results: [],
+    page: 2,
+    limit: 10,
+    totalPages: 5,
+    totalResults: 42,
+    countStrategy: 'exact',
+    totalIsLowerBound: false,
+    hasNextPage: true,
+    hasPrevPage: true,
+    nextPage: 3,
+    prevPage: 1,
+    pagingCounter: 11,
+    ...overrides,
+  });
+
+  it('1. should build JSON:API links keeping the original query params', () => {
+    const links = buildPaginationLinks(result(), 'https://api.example.com/users?status=active&page=2&sortBy=name:asc');
+
+    expect(links).toEqual({
+      self: 'https://api.example.com/users?status=active&page=2&sortBy=name%3Aasc&limit=10',
+      first: 'https://api.example.com/users?status=active&page=1&sortBy=name%3Aasc&limit=10',
+      last: 'https://api.example.com/users?status=active&page=5&sortBy=name%3Aasc&limit=10',
+      prev: 'https://api.example.com/users?status=active&page=1&sortBy=name%3Aasc&limit=10',
+      next: 'https://api.example.com/users?status=active&page=3&sortBy=name%3Aasc&limit=10',
+    });
+  });
+
+  it('2. should build an RFC 5988 Link header from a relative URL', () => {
+    const header = buildLinkHeader(result({ page: 1, hasPrevPage: false, prevPage: null, nextPage: 2 }), '/users?q=a');
+
+    expect(header).toBe(
+      '</users?q=a&page=1&limit=10>; rel="first", </users?q=a&page=2&limit=10>; rel="next", ' +
+        '</users?q=a&page=5&limit=10>; rel="last"',
+    );
+  });
+
+  it('3. should omit the last link and X-Total-Count when the total is a lower bound', () => {
+    const lowerBound = result({ countStrategy: 'none', totalIsLowerBound: true, totalPages: 3, totalResults: 21 });
+
+    expect(buildPaginationLinks(lowerBound, '/users').last).toBeNull();
+    expect(buildPaginationHeaders(lowerBound, '/users')['X-Total-Count']).toBeUndefined();
+    expect(buildPaginationHeaders(result(), '/users')['X-Total-Count']).toBe('42');
+  });
+
+  it('4. should use custom page and limit params', () => {
+    const links = buildPaginationLinks(result(), '/users?p=2', { pageParam: 'p', limitParam: 'size' });
+
+    expect(links.next).toBe('/users?p=3&size=10');
+  });
+});
@@ -0,0 +1,102 @@
+import { Schema } from 'mongoose';
+import { connect, clearDatabase, close } from './test-utils';
+import { configurePaginate, paginate } from '../src';
+import { TestBookmarkModel, TestNoteModel, TestUserModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Paginate Defaults Tests', () => {
+  beforeAll(connect);
+  afterEach(async () => {
+    configurePaginate({});
+    jest.restoreAllMocks();
+    await clearDatabase();
+  });
+  afterAll(close);
+
+  const seedBookmarks = async () => {
+    const owner = await TestUserModel.create({ name: 'Ann', email: 'ann@mail.com', password: 'secret' });
+    await TestBookmarkModel.create([
+      { title: 'Docs', url: 'https://docs.example.com', rank: 1, owner: owner._id },
+      { title: 'Blog', url: 'https://blog.example.com', rank: 3, owner: owner._id },
+      { title: 'News', url: 'https://news.example.com', rank: 2 },
+    ]);
+  };
+
+  it('1. plugin options should set the defaults, with per-call options taking precedence', async () => {
+    await seedBookmarks();
+
+    const page: any = await TestBookmarkModel.findPaged();
+    expect(page.items.map((bookmark: any) => bookmark.title)).toEqual(['Blog', 'News']);
+    expect(page.items[0]).toMatchObject({ key: expect.any(String), title: 'Blog', rank: 3, owner: { name: 'Ann' } });
+    expect(page.items[0]._id.toString()).toBe(page.items[0].key);
+    expect(page.items[0]).not.toHaveProperty('url');
+    expect(page.items[0]).not.toHaveProperty('id');
+
+    const custom = await TestBookmarkModel.findPaged(
+      {},
+      { limit: 5, sortBy: 'title:asc', fields: 'title', customLabels: { results: 'rows' } },
+    );
+    expect(custom.rows.map((bookmark) => bookmark.title)).toEqual(['Blog', 'Docs', 'News']);
+    expect(custom.rows[0]).not.toHaveProperty('rank');
+
+    const cursorPage = await TestBookmarkModel.paginateCursor();
+    expect(cursorPage.results.map((bookmark: any) => bookmark.title)).toEqual(['Blog', 'News']);
+    expect((TestBookmarkModel as any).paginate).toBeUndefined();
+  });
+
+  it('2. configurePaginate should set app-wide defaults, below the plugin options', async () => {
+    configurePaginate({ defaultLimit: 1, idField: 'uid', customLabels: { totalResults: 'total' } });
+    await seedBookmarks();
+    await TestNoteModel.create([{ title: 'First' }, { title: 'Second' }]);
+
+    // Without a createdAt path, the newest documents come first by _id
+    const notes: any = await TestNoteModel.paginate({}, { cache: false });
+    expect(notes.results).toEqual([{ uid: expect.any(String), title: 'Second', pinned: false }]);
+    expect(notes.total).toBe(2);
+
+    const bookmarks: any = await TestBookmarkModel.findPaged();
+    expect(bookmarks.items).toHaveLength(2);
+    expect(bookmarks.items[0]).toHaveProperty('key');
+    // Plugin labels replace the app-wide ones rather than merging with them
+    expect(bookmarks.totalResults).toBe(3);
+  });
+
+  it('3. an app-wide defaultSort a schema cannot use should warn once and fall back', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    configurePaginate({ defaultSort: 'title:asc' });
+    await TestNoteModel.create([{ title: 'B' }, { title: 'A' }]);
+    await TestUserModel.create([
+      { name: 'Ann', email: 'ann@mail.com', password: 'secret' },
+      { name: 'Ben', email: 'ben@mail.com', password: 'secret' },
+    ]);
+
+    const notes = await TestNoteModel.paginate({}, { cache: false });
+    expect(notes.results.map((note) => note.title)).toEqual(['A', 'B']);
+
+    const users = await TestUserModel.paginate();
+    await TestUserModel.paginate();
+    expect(users.results.map((user) => user.name)).toEqual(['Ben', 'Ann']);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      'paginate: the configurePaginate() defaultSort "title:asc" names "title", which is not a path of the schema; ' +
+        'sorting by "createdAt:desc" instead.',
+    );
+  });
+
+  it('4. should reject invalid defaults and method names when they are set', () => {
+    const register = (options: Parameters<typeof paginate>[1]) =>
+      new Schema({ title: String }).plugin(paginate, options);
+
+    expect(() => register({ defaultSort: 'createdAt:desc' })).toThrow(
+      'paginate: defaultSort "createdAt:desc" names "createdAt", which is not a path of the schema.',
+    );
+    expect(() => register({ defaultLimit: 0 })).toThrow('paginate: defaultLimit must be a positive integer, got 0.');
+    expect(() => register({ methodName: 'paginateCursor' })).toThrow(
+      'paginate: "paginateCursor" is already a static of the schema.',
+    );
+    expect(() => configurePaginate({ idField: 'meta.id' })).toThrow(
+      'configurePaginate: idField must be a top-level key, got "meta.id".',
+    );
+  });
+});
@@ -1,6 +1,7 @@
+import { PipelineStage } from 'mongoose';
 import { connect, clearDatabase, close } from './test-utils';
 import { PaginateModel, PaginateOptions, QueryResult } from '../src';
-import { TestUserModel, IUser } from './test.model';
+import { TestUserModel, TestArticleModel, TestContactModel, TestStoreModel, IUser } from './test.model';
 
 // Use PaginateModel from the source index for strong typing
 const UserModel: PaginateModel<IUser> = TestUserModel;
@@ -140,4 +141,695 @@ describe('Paginate Plugin Tests', () => {
     expect(result.results.length).toBe(2);
     expect(result.totalPages).toBe(3);
   });
+
+  it('12. paginateCursor should walk forward through all pages without duplicates', async () => {
+    await seedUsers();
+    const seen: string[] = [];
+
+    let result = await UserModel.paginateCursor({}, { sortBy: 'score:desc', limit: 2 });
+    expect(result.hasPrevPage).toBe(false);
+    seen.push(...result.results.map((doc) => doc.name));
+
+    while (result.hasNextPage) {
+      result = await UserModel.paginateCursor({}, { sortBy: 'score:desc', limit: 2, after: result.nextCursor! });
+      seen.push(...result.results.map((doc) => doc.name));
+    }
+
+    expect(seen).toEqual(['Eve', 'David', 'Charlie', 'Bob', 'Alice']);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('13. paginateCursor should walk backward with the "before" cursor', async () => {
+    await seedUsers();
+    const first = await UserModel.paginateCursor({}, { sortBy: 'score:asc', limit: 2 });
+    const second = await UserModel.paginateCursor({}, { sortBy: 'score:asc', limit: 2, after: first.nextCursor! });
+    const back = await UserModel.paginateCursor({}, { sortBy: 'score:asc', limit: 2, before: second.prevCursor! });
+
+    expect(second.results.map((doc) => doc.name)).toEqual(['Charlie', 'David']);
+    expect(back.results.map((doc) => doc.name)).toEqual(['Alice', 'Bob']);
+    expect(back.hasPrevPage).toBe(false);
+    expect(back.hasNextPage).toBe(true);
+  });
+
+  it('14. paginateCursor should support mixed sort directions and the aggregation path', async () => {
+    await UserModel.insertMany([
+      { name: 'Zoe', email: 'zoe@example.com', password: 'p6', score: 100 },
+      { name: 'Yara', email: 'yara@example.com', password: 'p7', score: 100 },
+      { name: 'Xena', email: 'xena@example.com', password: 'p8', score: 200 },
+    ]);
+    const aggregation: PaginateOptions['aggregation'] = [{ $match: { score: { $gte: 100 } } }];
+    const first = await UserModel.paginateCursor({}, { aggregation, sortBy: 'score:asc,name:desc', limit: 1 });
+    const second = await UserModel.paginateCursor(
+      {},
+      { aggregation, sortBy: 'score:asc,name:desc', limit: 2, after: first.nextCursor! },
+    );
+
+    expect(first.results[0].name).toBe('Zoe');
+    expect(second.results.map((doc) => doc.name)).toEqual(['Yara', 'Xena']);
+    expect(second.hasNextPage).toBe(false);
+    expect(second.results[0].id).toBeDefined();
+  });
+
+  it('15. paginateCursor should reject tampered cursors and cursors from another sortBy', async () => {
+    await seedUsers();
+    const { nextCursor } = await UserModel.paginateCursor({}, { sortBy: 'score:desc', limit: 2 });
+    const [body, signature] = nextCursor!.split('.');
+    const tampered = `${body}x.${signature}`;
+
+    await expect(UserModel.paginateCursor({}, { sortBy: 'score:desc', after: tampered })).rejects.toThrow(
+      /invalid cursor/i,
+    );
+    await expect(UserModel.paginateCursor({}, { sortBy: 'name:asc', after: nextCursor! })).rejects.toThrow(
+      /cannot be reused/i,
+    );
+  });
+
+  it('16. paginateCursor should page past documents missing the sort field on both paths', async () => {
+    await UserModel.insertMany([
+      { name: 'Ann', email: 'ann@example.com', password: 'p1', profile: { city: 'Oslo' } },
+      { name: 'Ben', email: 'ben@example.com', password: 'p2' },
+      { name: 'Cat', email: 'cat@example.com', password: 'p3', profile: { city: 'Bergen' } },
+      { name: 'Dan', email: 'dan@example.com', password: 'p4', profile: { city: null } },
+      { name: 'Eli', email: 'eli@example.com', password: 'p5', profile: { city: 'Oslo' } },
+    ]);
+    const walk = async (sortBy: string, aggregation?: PipelineStage[]) => {
+      const seen: string[] = [];
+      let result = await UserModel.paginateCursor({}, { sortBy, aggregation, limit: 2 });
+      seen.push(...result.results.map((doc) => doc.name));
+      while (result.hasNextPage) {
+        result = await UserModel.paginateCursor({}, { sortBy, aggregation, limit: 2, after: result.nextCursor! });
+        seen.push(...result.results.map((doc) => doc.name));
+      }
+      return seen;
+    };
+
+    // Null and missing values sort first ascending and last descending, ties broken by _id in the same direction
+    for (const aggregation of [undefined, [{ $match: {} }]]) {
+      expect(await walk('profile.city:asc', aggregation)).toEqual(['Ben', 'Dan', 'Cat', 'Ann', 'Eli']);
+      expect(await walk('profile.city:desc', aggregation)).toEqual(['Eli', 'Ann', 'Cat', 'Dan', 'Ben']);
+    }
+
+    const sortBy = 'profile.city:asc';
+    const first = await UserModel.paginateCursor({}, { sortBy, limit: 2 });
+    const second = await UserModel.paginateCursor({}, { sortBy, limit: 2, after: first.nextCursor! });
+    const back = await UserModel.paginateCursor({}, { sortBy, limit: 2, before: second.prevCursor! });
+    expect(back.results.map((doc) => doc.name)).toEqual(['Ben', 'Dan']);
+  });
+
+  it('17. paginateCursor should apply the filter, fields and populate on the aggregation path', async () => {
+    const [alice, bob] = await seedUsers();
+    await UserModel.updateOne({ _id: bob._id }, { invitedBy: alice._id });
+    const options = {
+      aggregation: [{ $match: { isActive: true } }],
+      fields: 'name,invitedBy',
+      populate: 'invitedBy(name)',
+      sortBy: 'score:asc',
+      limit: 2,
+    };
+
+    const first = await UserModel.paginateCursor({ score: { $gte: '200' } }, options);
+    const second = await UserModel.paginateCursor({ score: { $gte: '200' } }, { ...options, after: first.nextCursor! });
+    const row: any = first.results[0];
+
+    expect(first.results.map((doc) => doc.name)).toEqual(['Bob', 'Charlie']);
+    expect(second.results.map((doc) => doc.name)).toEqual(['David', 'Eve']);
+    expect(row.invitedBy.name).toBe('Alice');
+    expect(row.invitedBy.password).toBeUndefined(); // TestUser toJSON rules
+    expect(row.email).toBeUndefined();
+    expect(row.score).toBeUndefined(); // fetched for the cursor only
+  });
+
+  it('18. should report the exact count strategy by default', async () => {
+    await seedUsers();
+    const result = await UserModel.paginate({}, { limit: 2 });
+
+    expect(result.countStrategy).toBe('exact');
+    expect(result.totalIsLowerBound).toBe(false);
+  });
+
+  it('19. estimated count should only be used for an empty filter', async () => {
+    await seedUsers();
+    const unfiltered = await UserModel.paginate({}, { limit: 2, count: 'estimated' });
+    const filtered = await UserModel.paginate({ score: { $gt: 300 } }, { limit: 2, count: 'estimated' });
+
+    expect(unfiltered.countStrategy).toBe('estimated');
+    expect(unfiltered.totalResults).toBe(5);
+    expect(filtered.countStrategy).toBe('exact');
+    expect(filtered.totalResults).toBe(2);
+  });
+
+  it('20. capped count should report totalResults as a lower bound past the cap', async () => {
+    await seedUsers();
+    const capped = await UserModel.paginate({}, { limit: 2, count: 'capped', countCap: 3 });
+    const underCap = await UserModel.paginate({}, { limit: 2, count: 'capped', countCap: 10 });
+
+    expect(capped.totalResults).toBe(3);
+    expect(capped.totalIsLowerBound).toBe(true);
+    expect(underCap.totalResults).toBe(5);
+    expect(underCap.totalIsLowerBound).toBe(false);
+  });
+
+  it('21. count "none" should detect a next page from the extra row', async () => {
+    await seedUsers();
+    const first = await UserModel.paginate({}, { page: 1, limit: 2, count: 'none', sortBy: 'score:asc' });
+    const last = await UserModel.paginate({}, { page: 3, limit: 2, count: 'none', sortBy: 'score:asc' });
+
+    expect(first.results.length).toBe(2);
+    expect(first.totalIsLowerBound).toBe(true);
+    expect(first.totalPages).toBe(2);
+    expect(last.results.map((doc) => doc.name)).toEqual(['Eve']);
+    expect(last.totalIsLowerBound).toBe(false);
+    expect(last.totalResults).toBe(5);
+  });
+
+  it('22. facet count should return data and totals from one aggregation on both paths', async () => {
+    await seedUsers();
+    const found = await UserModel.paginate(
+      { score: { $gte: 200 } },
+      { page: 2, limit: 2, count: 'facet', sortBy: 'score:asc', fields: 'name,score' },
+    );
+    const aggregated = await UserModel.paginate(
+      {},
+      { aggregation: [{ $match: { score: { $gte: 200 } } }], page: 1, limit: 3, count: 'facet', sortBy: 'score:asc' },
+    );
+
+    expect(found.countStrategy).toBe('facet');
+    expect(found.totalResults).toBe(4);
+    expect(found.results.map((doc) => doc.name)).toEqual(['David', 'Eve']);
+    expect(found.results[0]).not.toHaveProperty('email');
+    expect(aggregated.totalResults).toBe(4);
+    expect(aggregated.totalPages).toBe(2);
+    expect(aggregated.results.length).toBe(3);
+  });
+
+  it('23. should throw on an unknown count strategy', async () => {
+    await expect(UserModel.paginate({}, { count: 'fast' as PaginateOptions['count'] })).rejects.toThrow(
+      /invalid count/i,
+    );
+  });
+
+  it('24. search should fall back to an escaped, case-insensitive regex over searchFields', async () => {
+    await seedUsers();
+    await UserModel.create({ name: 'A.B (admin)', email: 'ab@example.com', password: 'p6' });
+
+    const byName = await UserModel.paginate({}, { search: 'ALI', searchFields: 'name,email' });
+    const literal = await UserModel.paginate({}, { search: '.b (', searchFields: ['name'] });
+
+    expect(byName.results.map((doc) => doc.name)).toEqual(['Alice']);
+    expect(literal.results.map((doc) => doc.name)).toEqual(['A.B (admin)']);
+  });
+
+  it('25. search should be ANDed with the filter and work on the aggregation path', async () => {
+    await seedUsers();
+    const found = await UserModel.paginate({ score: { $gte: 300 } }, { search: 'e', searchFields: 'name' });
+    const aggregated = await UserModel.paginate(
+      {},
+      {
+        aggregation: [{ $match: { score: { $gte: 300 } } }],
+        search: 'e',
+        searchFields: 'name',
+        sortBy: 'score:asc',
+      },
+    );
+
+    expect(found.totalResults).toBe(2); // Charlie, Eve
+    expect(aggregated.results.map((doc) => doc.name)).toEqual(['Charlie', 'Eve']);
+    await expect(UserModel.paginate({}, { search: 'e' })).rejects.toThrow(/requires "searchFields"/);
+  });
+
+  it('26. search should use $text and sort by relevance when the schema has a text index', async () => {
+    await TestArticleModel.init();
+    await TestArticleModel.insertMany([
+      { title: 'Mongoose tips', body: 'pagination with mongoose and more mongoose' },
+      { title: 'Cooking', body: 'nothing related' },
+      { title: 'Indexes', body: 'a note on mongoose' },
+    ]);
+
+    const found = await TestArticleModel.paginate({}, { search: 'mongoose' });
+    const aggregated = await TestArticleModel.paginate({}, { search: 'mongoose', aggregation: [] });
+
+    expect(found.totalResults).toBe(2);
+    expect(found.results[0].title).toBe('Mongoose tips');
+    expect(aggregated.totalResults).toBe(2);
+    expect(aggregated.results[0].title).toBe('Mongoose tips');
+  });
+
+  it('27. find results should follow the toJSON rules', async () => {
+    await seedUsers();
+    const result = await UserModel.paginate({}, { limit: 1 });
+    const withTimestamps = await UserModel.paginate({}, { limit: 1, includeTimeStamps: true });
+    const withRole = await UserModel.paginate({}, { limit: 1, toJSON: { role: 'admin' } });
+
+    expect(result.results[0].password).toBeUndefined();
+    expect(result.results[0].privateField).toBeUndefined();
+    expect(typeof result.results[0].id).toBe('string');
+    expect(result.results[0].createdAt).toBeUndefined();
+    expect(withTimestamps.results[0].createdAt).toBeDefined();
+    expect(withRole.results[0].password).toBeUndefined();
+  });
+
+  it('28. aggregation results should not leak private fields', async () => {
+    await seedUsers();
+    const result = await UserModel.paginate({}, { aggregation: [{ $match: { name: 'Alice' } }] });
+    const raw = await UserModel.paginate({}, { aggregation: [{ $match: { name: 'Alice' } }], toJSON: false });
+
+    expect(result.results[0].name).toBe('Alice');
+    expect(result.results[0].password).toBeUndefined();
+    expect(result.results[0].privateField).toBeUndefined();
+    expect(result.results[0].id).toBeDefined();
+    expect(raw.results[0].password).toBe('p1');
+  });
+
+  it('29. excludePrivate should keep private paths out of the DB projection', async () => {
+    await UserModel.create({ name: 'Alice', email: 'a@example.com', password: 'p1', profile: { age: 30, city: 'Paris' } });
+
+    const found = await UserModel.paginate({}, { excludePrivate: true, toJSON: false });
+    const selected = await UserModel.paginate({}, { excludePrivate: true, toJSON: false, fields: 'name,password,profile' });
+    const aggregated = await UserModel.paginate({}, { excludePrivate: true, toJSON: false, aggregation: [] });
+
+    expect(found.results[0].password).toBeUndefined();
+    expect(found.results[0].profile?.age).toBeUndefined();
+    expect(found.results[0].profile?.city).toBe('Paris');
+    expect(selected.results[0].name).toBe('Alice');
+    expect(selected.results[0].password).toBeUndefined();
+    expect(selected.results[0].profile).toEqual({ city: 'Paris' });
+    expect(aggregated.results[0].password).toBeUndefined();
+    expect(aggregated.results[0].profile).toEqual({ city: 'Paris' });
+  });
+
+  const seedArticleWithAuthors = async () => {
+    const [alice, bob, charlie] = await seedUsers();
+    await UserModel.updateOne({ _id: bob._id }, { invitedBy: alice._id });
+    return TestArticleModel.create({ title: 'Post', author: bob._id, reviewers: [alice._id, bob._id, charlie._id] });
+  };
+
+  it('30. populate string grammar should select fields per level', async () => {
+    await seedArticleWithAuthors();
+
+    const shared = await TestArticleModel.paginate({}, { populate: 'author.invitedBy:name', toJSON: false });
+    const perLevel = await TestArticleModel.paginate(
+      {},
+      { populate: 'author(name,email).invitedBy(email)', toJSON: false },
+    );
+    const author: any = perLevel.results[0].author;
+
+    expect((shared.results[0].author as any).name).toBe('Bob');
+    expect((shared.results[0].author as any).email).toBeUndefined();
+    expect((shared.results[0].author as any).invitedBy.name).toBe('Alice');
+    expect(author.email).toBe('bob@example.com');
+    expect(author.invitedBy.email).toBe('alice@example.com');
+    expect(author.invitedBy.name).toBeUndefined();
+  });
+
+  it('31. structured populate should apply match, sort and limit per level', async () => {
+    await seedArticleWithAuthors();
+
+    const result = await TestArticleModel.paginate(
+      {},
+      {
+        toJSON: false,
+        populate: [
+          {
+            path: 'reviewers',
+            select: ['name'],
+            match: { score: { $gte: 200 } },
+            options: { sort: { score: -1 }, limit: 1 },
+          },
+          { path: 'author', select: 'name', populate: [{ path: 'invitedBy', select: 'name' }] },
+        ],
+      },
+    );
+    const [article] = result.results as any[];
+
+    expect(article.reviewers.map((reviewer: any) => reviewer.name)).toEqual(['Charlie']);
+    expect(article.author.name).toBe('Bob');
+    expect(article.author.invitedBy.name).toBe('Alice');
+  });
+
+  it('32. populate should reject paths that are not schema refs', async () => {
+    await seedArticleWithAuthors();
+
+    await expect(TestArticleModel.paginate({}, { populate: 'writer' })).rejects.toThrow(
+      'paginate: cannot populate "writer": "writer" is not a path of TestArticle.',
+    );
+    const nested = [{ path: 'author', populate: [{ path: 'email' }] }];
+    await expect(TestArticleModel.paginate({}, { populate: nested })).rejects.toThrow(
+      'paginate: cannot populate "author.email": "email" of TestUser is not a reference.',
+    );
+    await expect(TestArticleModel.paginate({}, { populate: 'author(name' })).rejects.toThrow(
+      'paginate: invalid populate format "author(name".',
+    );
+  });
+
+  it('33. aggregation path should apply the filter and fields and keep the count correct', async () => {
+    await seedUsers();
+    const result = await UserModel.paginate(
+      { score: { $gte: '200' } },
+      { aggregation: [{ $match: { isActive: true } }], fields: 'name,score', sortBy: 'score:asc', limit: 2 },
+    );
+
+    expect(result.totalResults).toBe(4);
+    expect(result.results.map((doc) => doc.name)).toEqual(['Bob', 'Charlie']);
+    expect(result.results[0].email).toBeUndefined();
+    expect(result.results[0].score).toBe(200);
+  });
+
+  it('34. aggregation path should populate nested refs with $lookup', async () => {
+    await seedArticleWithAuthors();
+
+    const options: PaginateOptions = {
+      aggregation: [],
+      count: 'facet',
+      populate: [
+        { path: 'author', select: 'name,password', populate: [{ path: 'invitedBy', select: 'name' }] },
+        { path: 'reviewers', select: 'name', options: { sort: 'name', limit: 2 } },
+      ],
+    };
+    const result = await TestArticleModel.paginate({ title: 'Post' }, options);
+    const article: any = result.results[0];
+
+    expect(result.totalResults).toBe(1);
+    expect(article.author.name).toBe('Bob');
+    expect(typeof article.author.id).toBe('string');
+    expect(article.author.password).toBeUndefined(); // TestUser toJSON rules
+    expect(article.author.invitedBy.name).toBe('Alice');
+    expect(article.reviewers.map((reviewer: any) => reviewer.name)).toEqual(['Alice', 'Bob']);
+  });
+
+  it('35. find and aggregation paths should return the same populated shape', async () => {
+    await seedArticleWithAuthors();
+    const options: PaginateOptions = { fields: 'title,author', populate: 'author(name).invitedBy(email)' };
+
+    const found: any = (await TestArticleModel.paginate({}, options)).results[0];
+    const aggregated: any = (await TestArticleModel.paginate({}, { ...options, aggregation: [] })).results[0];
+
+    expect(aggregated.title).toBe(found.title);
+    expect(aggregated.views).toBeUndefined();
+    expect(aggregated.author.id).toBe(found.author.id);
+    expect(aggregated.author.name).toBe(found.author.name);
+    expect(aggregated.author.invitedBy.email).toBe(found.author.invitedBy.email);
+    expect(aggregated.author.email).toBeUndefined();
+  });
+
+  it('36. aggregation populate should keep the order of arrays of refs, as the find path does', async () => {
+    const [alice, bob, charlie] = await seedUsers();
+    await TestArticleModel.create({ title: 'Post', author: bob._id, reviewers: [charlie._id, alice._id, bob._id] });
+    const getReviewers = async (options: PaginateOptions) =>
+      ((await TestArticleModel.paginate({}, { populate: 'reviewers', ...options })).results[0] as any).reviewers.map(
+        (reviewer: any) => reviewer.name,
+      );
+
+    expect(await getReviewers({ aggregation: [] })).toEqual(['Charlie', 'Alice', 'Bob']);
+    expect(await getReviewers({})).toEqual(['Charlie', 'Alice', 'Bob']);
+  });
+
+  const seedManyUsers = (count: number) =>
+    UserModel.insertMany(
+      Array.from({ length: count }, (_, i) => ({
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+        password: 'p',
+        score: i,
+      })),
+    );
+
+  it('37. shuffleSeed should page through one stable permutation without duplicates', async () => {
+    await seedManyUsers(20);
+    const readAll = async (shuffleSeed: string) => {
+      const pages = await Promise.all(
+        [1, 2, 3, 4].map((page) => UserModel.paginate({}, { shuffleSeed, page, limit: 5 })),
+      );
+      return pages.flatMap((result) => result.results.map((doc) => doc.name));
+    };
+
+    const first = await readAll('feed-1');
+    const again = await readAll('feed-1');
+    const other = await readAll('feed-2');
+
+    expect(new Set(first).size).toBe(20);
+    expect(again).toEqual(first);
+    expect(other).not.toEqual(first);
+    expect(first).not.toEqual([...first].sort());
+
+    const page = await UserModel.paginate({ score: { $gte: 10 } }, { shuffleSeed: 'feed-1', limit: 5, fields: 'name' });
+    expect(page.totalResults).toBe(10);
+    expect(Object.keys(page.results[0])).not.toContain('__shuffleKey');
+    expect(page.results.every((doc) => Number(doc.name.split(' ')[1]) >= 10)).toBe(true);
+  });
+
+  it('38. sample should return random documents matching the filter', async () => {
+    await seedManyUsers(20);
+    const result = await UserModel.paginate({ score: { $lt: 10 } }, { sample: true, limit: 4 });
+
+    expect(result.results).toHaveLength(4);
+    expect(new Set(result.results.map((doc) => doc.id)).size).toBe(4);
+    expect(result.results.every((doc) => doc.score < 10)).toBe(true);
+    expect(result.totalResults).toBe(10);
+    await expect(UserModel.paginate({}, { sample: true, shuffleSeed: 1 })).rejects.toThrow(
+      'paginate: "shuffleSeed" and "sample" cannot be used together.',
+    );
+  });
+
+  it('39. results should carry next/prev page metadata', async () => {
+    await seedUsers();
+    const first = await UserModel.paginate({}, { page: 1, limit: 2 });
+    const last = await UserModel.paginate({}, { page: 3, limit: 2 });
+    const uncounted = await UserModel.paginate({}, { page: 2, limit: 2, count: 'none' });
+
+    expect(first).toMatchObject({ hasNextPage: true, hasPrevPage: false, nextPage: 2, prevPage: null });
+    expect(first.pagingCounter).toBe(1);
+    expect(last).toMatchObject({ hasNextPage: false, hasPrevPage: true, nextPage: null, prevPage: 2 });
+    expect(last.pagingCounter).toBe(5);
+    expect(uncounted).toMatchObject({ hasNextPage: true, nextPage: 3, prevPage: 1 });
+  });
+
+  it('40. customLabels should rename the result envelope keys', async () => {
+    await seedUsers();
+    const customLabels = { results: 'docs', totalResults: 'totalDocs' } as const;
+    const result = await UserModel.paginate({}, { limit: 2, customLabels });
+
+    expect(result.docs).toHaveLength(2);
+    expect(result.totalDocs).toBe(5);
+    expect(result.hasNextPage).toBe(true);
+    expect((result as Record<string, unknown>).results).toBeUndefined();
+  });
+
+  const seedTaggedUsers = () =>
+    UserModel.insertMany(
+      [
+        { name: 'Ann', tags: ['js', 'go'], score: 10, createdAt: new Date('2024-01-05') },
+        { name: 'Ben', tags: ['js'], score: 60, createdAt: new Date('2024-01-20') },
+        { name: 'Cid', tags: ['js', 'ts'], score: 75, createdAt: new Date('2024-03-02') },
+        { name: 'Dee', tags: [], score: 120, createdAt: new Date('2024-03-09') },
+        { name: 'Eli', tags: ['go'], score: 40, isActive: false },
+      ].map((user) => ({ ...user, email: `${user.name.toLowerCase()}@example.com`, password: 'p' })),
+    );
+
+  it('41. facets should count terms, ranges and months over the filtered set', async () => {
+    await seedTaggedUsers();
+    const result = await UserModel.paginate(
+      { isActive: true },
+      {
+        limit: 1,
+        facets: {
+          tags: { type: 'terms', limit: 2 },
+          score: { type: 'range', boundaries: [0, 50, 100] },
+          months: { type: 'dateHistogram', path: 'createdAt', interval: 'month' },
+        },
+      },
+    );
+
+    expect(result.results).toHaveLength(1);
+    expect(result.facets!.tags).toEqual([
+      { value: 'js', count: 3 },
+      { value: 'go', count: 1 },
+    ]);
+    expect(result.facets!.score).toEqual([
+      { value: 0, count: 1, to: 50 },
+      { value: 50, count: 2, to: 100 },
+    ]);
+    expect(result.facets!.months).toEqual([
+      { value: new Date('2024-01-01'), count: 2 },
+      { value: new Date('2024-03-01'), count: 2 },
+    ]);
+  });
+
+  it('42. facets should run on the aggregation path and keep a default range bucket', async () => {
+    await seedTaggedUsers();
+    const result = await UserModel.paginate(
+      { score: { $gte: 40 } },
+      {
+        aggregation: [{ $addFields: { tagCount: { $size: '$tags' } } }],
+        count: 'facet',
+        facets: {
+          tagCount: { type: 'range', boundaries: [1, 2], default: 'other' },
+          tags: { type: 'terms' },
+        },
+      },
+    );
+
+    expect(result.totalResults).toBe(4);
+    expect(result.facets!.tagCount).toEqual([
+      { value: 1, count: 2, to: 2 },
+      { value: 'other', count: 2 },
+    ]);
+    expect(result.facets!.tags).toEqual([
+      { value: 'js', count: 2 },
+      { value: 'go', count: 1 },
+      { value: 'ts', count: 1 },
+    ]);
+  });
+
+  it('43. should reject facets on unknown or private paths', async () => {
+    await expect(UserModel.paginate({}, { facets: { nope: { type: 'terms' } } })).rejects.toThrow(
+      'paginate: invalid facet "nope": "nope" is not a path of the schema.',
+    );
+    await expect(UserModel.paginate({}, { facets: { password: { type: 'terms' } } })).rejects.toThrow(
+      'paginate: invalid facet "password": "password" is private.',
+    );
+    await expect(
+      UserModel.paginate({}, { facets: { score: { type: 'range', boundaries: [100, 50] } } }),
+    ).rejects.toThrow('paginate: invalid facet "score": boundaries must hold at least two ascending numbers or dates.');
+  });
+
+  it('44. should reject facets on visibleTo paths unless the toJSON role may see them', async () => {
+    await seedUsers();
+    const facets = { phone: { type: 'terms' } } as const;
+
+    await expect(UserModel.paginate({}, { facets })).rejects.toThrow(
+      `paginate: invalid facet "phone": "phone" is not visible to the caller's roles.`,
+    );
+    // "self" needs a row to compare with, and facets count them all
+    await expect(UserModel.paginate({}, { facets, toJSON: { role: 'self', isSelf: () => true } })).rejects.toThrow(
+      `paginate: invalid facet "phone": "phone" is not visible to the caller's roles.`,
+    );
+    await expect(
+      UserModel.paginate({}, { facets: { codes: { type: 'terms', path: 'addresses.code' } }, toJSON: false }),
+    ).rejects.toThrow(`paginate: invalid facet "codes": "addresses.code" is not visible to the caller's roles.`);
+
+    const result = await UserModel.paginate({}, { facets, toJSON: { roles: ['editor', 'admin'] } });
+    expect(Array.isArray(result.facets!.phone)).toBe(true);
+  });
+
+  it('45. a view should shape results and narrow the projection and populate selects', async () => {
+    await seedArticleWithAuthors();
+
+    const shaped = await TestArticleModel.paginate({}, { view: 'summary', populate: 'author' });
+    expect(shaped.results[0]).toEqual({
+      id: expect.any(String),
+      headline: 'Post',
+      tags: [],
+      author: { name: 'Bob' },
+    });
+
+    // The projection and populate select come from the view, so other fields are never fetched
+    const raw = await TestArticleModel.paginate({}, { view: 'summary', populate: 'author', toJSON: false });
+    const author: any = raw.results[0].author;
+    expect(raw.results[0].body).toBeUndefined();
+    expect(raw.results[0].reviewers).toBeUndefined();
+    expect(author.name).toBe('Bob');
+    expect(author.email).toBeUndefined();
+  });
+
+  it('46. exclusion views should project the excluded paths out, and unknown views should throw', async () => {
+    await seedArticleWithAuthors();
+
+    const result = await TestArticleModel.paginate({}, { view: 'public' });
+    expect(result.results[0].title).toBe('Post');
+    expect(result.results[0]).not.toHaveProperty('reviewers');
+    expect(result.results[0].createdAt).toBeDefined();
+
+    await expect(TestArticleModel.paginate({}, { view: 'nope' })).rejects.toThrow(
+      'paginate: unknown view "nope" of TestArticle.',
+    );
+  });
+
+  it('47. schema-level aliases should be accepted in filter, sortBy and fields, and used in results', async () => {
+    await TestContactModel.insertMany([
+      { name: 'Ann', rank: 1, address: { city: 'Oslo', zip: '0150' } },
+      { name: 'Ben', rank: 3, address: { city: 'Oslo' } },
+      { name: 'Cai', rank: 2, address: { city: 'Rome' } },
+    ]);
+
+    const result = await TestContactModel.paginate(
+      { $or: [{ city: 'Oslo' }, { fullName: 'Cai' }], position: { $gte: 1 } },
+      { sortBy: 'position:desc', fields: 'fullName,city' },
+    );
+    expect(result.results.map((contact: any) => contact.fullName)).toEqual(['Ben', 'Cai', 'Ann']);
+    expect(result.results[0]).toEqual({ id: expect.any(String), fullName: 'Ben', city: 'Oslo' });
+
+    const cursorPage = await TestContactModel.paginateCursor({ city: 'Oslo' }, { sortBy: 'position:asc', limit: 1 });
+    expect(cursorPage.results.map((contact: any) => contact.fullName)).toEqual(['Ann']);
+  });
+
+  it('48. masks should apply to paginate rows, with or without the toJSON rules, and block facets', async () => {
+    await TestContactModel.create({ name: 'Ann', email: 'ann@mail.com', cards: [{ number: '5500000000000004' }] });
+
+    const masked = await TestContactModel.paginate({}, {});
+    expect(masked.results[0]).toMatchObject({ email: 'a***@mail.com', cards: [{ number: '************0004' }] });
+
+    const raw = await TestContactModel.paginate({}, { toJSON: false });
+    expect(raw.results[0].email).toBe('a***@mail.com');
+
+    const unmasked = await TestContactModel.paginate({}, { toJSON: { unmask: ['email'] } });
+    expect(unmasked.results[0].email).toBe('ann@mail.com');
+
+    await expect(TestContactModel.paginate({}, { facets: { email: { type: 'terms' } } })).rejects.toThrow(
+      'paginate: invalid facet "email": "email" is masked.',
+    );
+  });
+
+  it('49. near should list the nearest first with their distance, within the filter and counted exactly', async () => {
+    await TestStoreModel.init();
+    await TestStoreModel.create([
+      { name: 'Alex', location: { coordinates: [13.406, 52.52] } },
+      { name: 'Mitte', location: { coordinates: [13.42, 52.52] } },
+      { name: 'Closed', open: false, location: { coordinates: [13.4051, 52.52] } },
+      { name: 'Far', location: { coordinates: [13.5, 52.52] } },
+    ]);
+    const near = { path: 'location', coordinates: [13.405, 52.52], unit: 'kilometers', maxDistance: 5 } as const;
+
+    const result = await TestStoreModel.paginate({ open: true }, { near, limit: 1 });
+    expect(result.results.map((store) => store.name)).toEqual(['Alex']);
+    expect(result.results[0].distance).toBeCloseTo(0.068, 2);
+    expect(result.totalResults).toBe(2);
+
+    const facetPage = await TestStoreModel.paginate({ open: true }, { near, count: 'facet', sortBy: 'name:desc' });
+    expect(facetPage.results.map((store) => store.name)).toEqual(['Mitte', 'Alex']);
+    expect(facetPage.totalResults).toBe(2);
+
+    // Views and inclusion projections keep the distance
+    const cards = await TestStoreModel.paginate({}, { near: { ...near, minDistance: 0.5 }, view: 'card' });
+    expect(cards.results).toEqual([{ id: expect.any(String), name: 'Mitte', distance: expect.any(Number) }]);
+    const named = await TestStoreModel.paginate({}, { near, fields: 'name', limit: 1 });
+    expect(Object.keys(named.results[0]).sort()).toEqual(['distance', 'id', 'name']);
+  });
+
+  it('50. near and aggregation stages should be checked before the pipeline runs', async () => {
+    const near = { path: 'location', coordinates: [13.405, 52.52] } as const;
+
+    await expect(TestContactModel.paginate({}, { near: { ...near, path: 'address' } })).rejects.toThrow(
+      'paginate: "near" needs a 2dsphere index on "address" of TestContact.',
+    );
+    await expect(TestStoreModel.paginate({}, { near: { ...near, coordinates: [52.52, 190] } })).rejects.toThrow(
+      'paginate: invalid near coordinates [52.52,190]. Expected [longitude, latitude].',
+    );
+    await expect(TestStoreModel.paginate({}, { near: { ...near, minDistance: 9, maxDistance: 1 } })).rejects.toThrow(
+      'paginate: near minDistance cannot be greater than maxDistance.',
+    );
+    await expect(TestStoreModel.paginate({}, { near: { ...near, distanceField: 'name' } })).rejects.toThrow(
+      'paginate: the distance field "name" is a path of TestStore; set near.distanceField.',
+    );
+
+    const geoNear: PipelineStage = { $geoNear: { near: { type: 'Point', coordinates: [0, 0] }, distanceField: 'd' } };
+    await expect(TestStoreModel.paginate({}, { near, aggregation: [geoNear] })).rejects.toThrow(
+      'paginate: $geoNear at stage 0 of "aggregation": "near" already adds $geoNear as the first stage.',
+    );
+    await expect(TestStoreModel.paginate({}, { aggregation: [{ $match: { open: true } }, geoNear] })).rejects.toThrow(
+      'paginate: $geoNear at stage 1 of "aggregation": it must be the first stage.',
+    );
+    await expect(TestStoreModel.paginate({}, { aggregation: [{ $out: 'stores' }] })).rejects.toThrow(
+      'paginate: $out cannot be used in "aggregation": paginate adds stages after the pipeline.',
+    );
+  });
 });
@@ -0,0 +1,115 @@
+import { Types } from 'mongoose';
+import { parsePaginateQuery, PaginateError, PaginateQueryError } from '../src';
+import { TestUserModel } from './test.model';
+
+describe('parsePaginateQuery Tests', () => {
+  const schema = TestUserModel.schema;
+  const config = {
+    filterableFields: ['name', 'score', 'isActive', 'createdAt', 'tags', '_id', 'email'],
+    sortableFields: ['name', 'score', 'createdAt'],
+    maxLimit: 50,
+  };
+
+  const getIssues = (query: Record<string, any>) => {
+    try {
+      parsePaginateQuery(query, schema, config);
+    } catch (error) {
+      if (error instanceof PaginateQueryError) return error.issues;
+      throw error;
+    }
+    return [];
+  };
+
+  it('1. should split pagination params from filter params', () => {
+    const { filter, options } = parsePaginateQuery(
+      { page: '2', limit: '20', sortBy: 'score:desc,name:asc', fields: 'name,score', name: 'Alice' },
+      schema,
+      config,
+    );
+
+    expect(options).toEqual({ page: 2, limit: 20, sortBy: 'score:desc,name:asc', fields: 'name,score' });
+    expect(filter).toEqual({ name: 'Alice' });
+  });
+
+  it('2. should support operator syntax from bracket keys and qs-parsed objects', () => {
+    const { filter } = parsePaginateQuery(
+      { 'score[gte]': '10', score: { lt: '500' }, 'tags[in]': 'a,b', 'name[regex]': 'a.b' },
+      schema,
+      config,
+    );
+
+    expect(filter).toEqual({
+      score: { $gte: 10, $lt: 500 },
+      tags: { $in: ['a', 'b'] },
+      name: { $regex: 'a\\.b', $options: 'i' },
+    });
+  });
+
+  it('3. should cast values to the schema type of each path', () => {
+    const id = new Types.ObjectId();
+    const { filter } = parsePaginateQuery(
+      { isActive: 'false', 'createdAt[gt]': '2024-01-01', _id: id.toString(), 'email[exists]': 'true' },
+      schema,
+      config,
+    );
+
+    expect(filter.isActive).toBe(false);
+    expect(filter.createdAt.$gt).toEqual(new Date('2024-01-01'));
+    expect(filter._id).toBeInstanceOf(Types.ObjectId);
+    expect(filter._id.toString()).toBe(id.toString());
+    expect(filter.email).toEqual({ $exists: true });
+  });
+
+  it('4. should report unknown, disallowed and uncastable params together', () => {
+    const issues = getIssues({
+      password: 'x',
+      unknown: 'y',
+      $where: '1',
+      'score[gte]': 'ten',
+      'name[near]': 'x',
+      sortBy: 'password:asc',
+      limit: '100',
+    });
+
+    expect(issues.map((issue) => [issue.param, issue.code])).toEqual([
+      ['limit', 'INVALID_VALUE'],
+      ['sortBy', 'FIELD_NOT_SORTABLE'],
+      ['password', 'FIELD_NOT_FILTERABLE'],
+      ['unknown', 'UNKNOWN_PARAM'],
+      ['$where', 'UNKNOWN_PARAM'],
+      ['score[gte]', 'INVALID_VALUE'],
+      ['name[near]', 'INVALID_OPERATOR'],
+    ]);
+  });
+
+  it('5. should leave ignored params out of the filter', () => {
+    const { filter } = parsePaginateQuery({ search: 'foo', name: 'Bob' }, schema, {
+      ...config,
+      ignoredParams: ['search'],
+    });
+
+    expect(filter).toEqual({ name: 'Bob' });
+  });
+
+  it('6. should reject page=-1 unless allowFetchAll is set', () => {
+    expect(getIssues({ page: '-1' })).toEqual([
+      { param: 'page', code: 'INVALID_VALUE', message: '"page" must be a positive integer.' },
+    ]);
+
+    const { options } = parsePaginateQuery({ page: '-1' }, schema, { ...config, allowFetchAll: true });
+    expect(options).toEqual({ page: -1 });
+  });
+
+  it('7. PaginateQueryError should be a PaginateError with the INVALID_QUERY code', () => {
+    let caught: unknown;
+    try {
+      parsePaginateQuery({ password: 'x' }, schema, config);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(PaginateQueryError);
+    expect(caught).toBeInstanceOf(PaginateError);
+    expect((caught as PaginateError).code).toBe('INVALID_QUERY');
+  });
+});
@@ -0,0 +1,93 @@
+import { connect, clearDatabase, close } from './test-utils';
+import { TestTaskModel, TestUserModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Soft Delete Plugin Tests', () => {
+  beforeAll(connect);
+  afterEach(clearDatabase);
+  afterAll(close);
+
+  const seedTasks = async () =>
+    TestTaskModel.insertMany([
+      { title: 'Write docs', priority: 1 },
+      { title: 'Fix bug', priority: 3 },
+      { title: 'Review PR', priority: 2 },
+    ]);
+
+  it('1. softDelete() should hide the document from find and count queries', async () => {
+    const [task] = await seedTasks();
+    const user = await TestUserModel.create({ name: 'Admin', email: 'admin@example.com', password: 'p1' });
+
+    await task.softDelete(user._id);
+
+    expect(task.deletedAt).toBeInstanceOf(Date);
+    expect(String(task.deletedBy)).toBe(user._id.toString());
+    expect(await TestTaskModel.countDocuments()).toBe(2);
+    expect(await TestTaskModel.findById(task._id)).toBeNull();
+    expect(await TestTaskModel.find().withDeleted()).toHaveLength(3);
+    expect((await TestTaskModel.find().onlyDeleted()).map((doc) => doc.title)).toEqual(['Write docs']);
+  });
+
+  it('2. restore() should make the document visible again', async () => {
+    const [task] = await seedTasks();
+    await task.softDelete();
+    await task.restore();
+
+    expect(task.deletedAt).toBeNull();
+    expect(await TestTaskModel.countDocuments()).toBe(3);
+  });
+
+  it('3. bulk statics should soft delete, list and restore documents', async () => {
+    await seedTasks();
+
+    await TestTaskModel.softDeleteMany({ priority: { $gte: 2 } });
+    expect(await TestTaskModel.countDocuments()).toBe(1);
+    expect(await TestTaskModel.findDeleted()).toHaveLength(2);
+
+    await TestTaskModel.restoreMany({ title: 'Fix bug' });
+    expect(await TestTaskModel.countDocuments()).toBe(2);
+    expect(await TestTaskModel.findDeleted()).toHaveLength(1);
+  });
+
+  it('4. updates should not touch deleted documents', async () => {
+    const [task] = await seedTasks();
+    await task.softDelete();
+
+    const result = await TestTaskModel.updateMany({}, { $set: { priority: 10 } });
+    const deleted = await TestTaskModel.findById(task._id).withDeleted();
+
+    expect(result.modifiedCount).toBe(2);
+    expect(deleted?.priority).toBe(1);
+  });
+
+  it('5. aggregate should hide deleted documents unless withDeleted is set', async () => {
+    const [task] = await seedTasks();
+    await task.softDelete();
+
+    const visible = await TestTaskModel.aggregate([{ $match: { priority: { $gte: 1 } } }]);
+    const all = await TestTaskModel.aggregate([{ $match: { priority: { $gte: 1 } } }]).option({ withDeleted: true });
+
+    expect(visible).toHaveLength(2);
+    expect(all).toHaveLength(3);
+  });
+
+  it('6. paginate should honor soft delete on both paths and support includeDeleted', async () => {
+    const [task] = await seedTasks();
+    await task.softDelete();
+
+    const found = await TestTaskModel.paginate({}, { count: 'estimated' });
+    const aggregated = await TestTaskModel.paginate({}, { aggregation: [], count: 'facet' });
+    const admin = await TestTaskModel.paginate({}, { includeDeleted: true });
+    const adminAggregated = await TestTaskModel.paginate({}, { aggregation: [], includeDeleted: true });
+
+    expect(found.totalResults).toBe(2);
+    expect(found.countStrategy).toBe('exact');
+    expect(found.results).toHaveLength(2);
+    expect(aggregated.totalResults).toBe(2);
+    expect(aggregated.results).toHaveLength(2);
+    expect(admin.totalResults).toBe(3);
+    expect(adminAggregated.totalResults).toBe(3);
+    expect(adminAggregated.results).toHaveLength(3);
+  });
+});
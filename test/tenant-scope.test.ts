@@ -0,0 +1,174 @@
+import { Types } from 'mongoose';
+import { connect, clearDatabase, close } from './test-utils';
+import { runWithoutTenant, runWithTenant } from '../src';
+import { TestInternalProjectModel, TestProjectModel, TestTicketModel } from './test.model';
+
+jest.setTimeout(30000);
+
+describe('Tenant Scope Plugin Tests', () => {
+  beforeAll(connect);
+  afterEach(clearDatabase);
+  afterAll(close);
+
+  const tenantA = new Types.ObjectId();
+  const tenantB = new Types.ObjectId();
+
+  const seedProjects = async () => {
+    await runWithTenant(tenantA, () =>
+      TestProjectModel.create([
+        { name: 'Apollo', budget: 100 },
+        { name: 'Gemini', budget: 50 },
+      ]),
+    );
+    await runWithTenant(tenantB, () => TestProjectModel.insertMany([{ name: 'Mercury', budget: 70 }]));
+  };
+
+  it('1. should stamp the tenant on new documents and scope find, count and paginate', async () => {
+    await seedProjects();
+
+    await runWithTenant(tenantA, async () => {
+      const projects = await TestProjectModel.find().sort({ name: 1 });
+      expect(projects.map((project) => project.name)).toEqual(['Apollo', 'Gemini']);
+      expect(projects[0].tenantId.toString()).toBe(tenantA.toString());
+      expect(await TestProjectModel.countDocuments({ name: 'Mercury' })).toBe(0);
+      // A filter naming another tenant is ANDed with the current one
+      expect(await TestProjectModel.find({ tenantId: tenantB })).toHaveLength(0);
+
+      const page = await TestProjectModel.paginate({}, { sortBy: 'name:asc', count: 'estimated' });
+      expect(page.totalResults).toBe(2);
+    });
+
+    const pageB = await runWithTenant(tenantB, () => TestProjectModel.paginate({}, { sortBy: 'name:asc' }));
+    expect(pageB.results.map((project) => project.name)).toEqual(['Mercury']);
+  });
+
+  it('2. should scope aggregations, including the count pipeline of paginate', async () => {
+    await seedProjects();
+
+    await runWithTenant(tenantA, async () => {
+      const totals = await TestProjectModel.aggregate([{ $group: { _id: null, budget: { $sum: '$budget' } } }]);
+      expect(totals[0].budget).toBe(150);
+
+      const page = await TestProjectModel.paginate(
+        {},
+        { aggregation: [{ $match: { budget: { $gte: 50 } } }], sortBy: 'budget:desc', limit: 1 },
+      );
+      expect(page.results.map((project) => project.name)).toEqual(['Apollo']);
+      expect(page.totalResults).toBe(2);
+    });
+  });
+
+  it('3. should scope updates and deletes and reject cross-tenant writes', async () => {
+    await seedProjects();
+
+    await runWithTenant(tenantA, async () => {
+      const { modifiedCount } = await TestProjectModel.updateMany({}, { $inc: { budget: 1 } });
+      expect(modifiedCount).toBe(2);
+      expect((await TestProjectModel.deleteMany({ name: 'Mercury' })).deletedCount).toBe(0);
+
+      await expect(TestProjectModel.updateOne({ name: 'Apollo' }, { tenantId: tenantB })).rejects.toThrow(
+        'tenantScope: cannot write tenantId',
+      );
+      await expect(TestProjectModel.create({ name: 'Vostok', tenantId: tenantB })).rejects.toThrow(
+        'tenantScope: cannot write tenantId',
+      );
+    });
+
+    const mercury = await runWithoutTenant(() => TestProjectModel.findOne({ name: 'Mercury' }));
+    expect(mercury!.budget).toBe(70);
+    await expect(runWithTenant(tenantA, () => mercury!.deleteOne())).rejects.toThrow(
+      'tenantScope: cannot write tenantId',
+    );
+  });
+
+  it('4. should throw without a tenant context unless bypassed', async () => {
+    await seedProjects();
+
+    await expect(TestProjectModel.find()).rejects.toThrow('tenantScope: TestProject.find() ran without a tenant.');
+    await expect(TestProjectModel.paginate({})).rejects.toThrow('ran without a tenant');
+    await expect(TestProjectModel.aggregate([{ $match: {} }]).exec()).rejects.toThrow('ran without a tenant');
+
+    expect(await runWithoutTenant(() => TestProjectModel.countDocuments())).toBe(3);
+  });
+
+  it('5. should keep cached paginate results apart per tenant', async () => {
+    await seedProjects();
+
+    const pageA = await runWithTenant(tenantA, () => TestProjectModel.paginate({}, { cacheKey: 'projects' }));
+    const pageB = await runWithTenant(tenantB, () => TestProjectModel.paginate({}, { cacheKey: 'projects' }));
+
+    expect(pageA.totalResults).toBe(2);
+    expect(pageB.totalResults).toBe(1);
+  });
+
+  it('6. aggregation populate should only join documents of the tenant that are not deleted', async () => {
+    await seedProjects();
+    const mercury = await runWithoutTenant(() => TestProjectModel.findOne({ name: 'Mercury' }));
+
+    await runWithTenant(tenantA, async () => {
+      const gemini = await TestProjectModel.findOne({ name: 'Gemini' });
+      await TestProjectModel.create([
+        { name: 'Artemis', parent: gemini!._id },
+        { name: 'Orion', parent: mercury!._id },
+      ]);
+      const options = {
+        aggregation: [{ $match: { parent: { $exists: true } } }],
+        populate: 'parent',
+        sortBy: 'name:asc',
+        cache: false,
+      };
+      const getParents = async () =>
+        (await TestProjectModel.paginate({}, options)).results.map((project: any) => project.parent?.name ?? null);
+
+      expect(await getParents()).toEqual(['Gemini', null]);
+      await TestProjectModel.updateOne({ name: 'Gemini' }, { deletedAt: new Date() });
+      expect(await getParents()).toEqual([null, null]);
+    });
+  });
+
+  it('7. includeDeleted should not estimate the count of a tenant-scoped model', async () => {
+    await seedProjects();
+
+    await runWithTenant(tenantA, async () => {
+      await TestProjectModel.updateOne({ name: 'Gemini' }, { deletedAt: new Date() });
+      expect((await TestProjectModel.paginate({}, { count: 'estimated' })).totalResults).toBe(1);
+
+      const page = await TestProjectModel.paginate({}, { count: 'estimated', includeDeleted: true });
+      expect(page.totalResults).toBe(2);
+    });
+  });
+
+  it('8. discriminators should keep cached paginate results apart per tenant and from the base model', async () => {
+    await seedProjects();
+    await runWithTenant(tenantA, () => TestInternalProjectModel.create({ name: 'Skylab', sponsor: 'NASA' }));
+
+    const internalA = await runWithTenant(tenantA, () => TestInternalProjectModel.paginate({}, { cacheKey: 'all' }));
+    const internalB = await runWithTenant(tenantB, () => TestInternalProjectModel.paginate({}, { cacheKey: 'all' }));
+    const projectsA = await runWithTenant(tenantA, () => TestProjectModel.paginate({}, { cacheKey: 'all' }));
+
+    expect(internalA.totalResults).toBe(1);
+    expect(internalB.totalResults).toBe(0);
+    expect(projectsA.totalResults).toBe(3);
+  });
+
+  it('9. should reject $rename into the tenant path and scope the audit history', async () => {
+    await seedProjects();
+    await runWithTenant(tenantA, async () => {
+      await expect(TestProjectModel.updateOne({ name: 'Apollo' }, { $rename: { name: 'tenantId' } })).rejects.toThrow(
+        'tenantScope: $rename cannot write tenantId of TestProject.',
+      );
+    });
+
+    const ticket = await runWithTenant(tenantB, () => TestTicketModel.create({ title: 'Outage' }));
+    await runWithTenant(tenantB, () => TestTicketModel.updateOne({ _id: ticket._id }, { title: 'Outage (fixed)' }));
+
+    const historyB = await runWithTenant(tenantB, () => TestTicketModel.history(ticket._id));
+    const historyA = await runWithTenant(tenantA, () => TestTicketModel.history(ticket._id));
+    expect(historyB.results.map((entry) => entry.version)).toEqual([2, 1]);
+    expect(String(historyB.results[0].tenant)).toBe(String(tenantB));
+    expect(historyA.totalResults).toBe(0);
+    await expect(TestTicketModel.history(ticket._id)).rejects.toThrow(
+      'tenantScope: TestTicket.history() ran without a tenant.',
+    );
+  });
+});
@@ -1,6 +1,22 @@
-import mongoose, { Schema, Document } from 'mongoose';
+import { randomBytes } from 'crypto';
+import mongoose, { Schema, Document, Model, Types } from 'mongoose';
 // Assuming the root index.ts exports these items correctly
-import { paginate, PaginateModel, toJSONPlugin } from '../src';
+import {
+  auditTrail,
+  AuditTrailMethods,
+  AuditTrailStatics,
+  createLRUCache,
+  encryptedFields,
+  EncryptedFieldsStatics,
+  paginate,
+  PaginateModel,
+  softDelete,
+  SoftDeleteDocument,
+  SoftDeleteQueryHelpers,
+  SoftDeleteStatics,
+  tenantScope,
+  toJSONPlugin,
+} from '../src';
 
 // Extended interfaces for testing nested fields and private properties
 export interface IProfile {
@@ -23,6 +39,9 @@ export interface IUser extends Document {
   keywords: 'dev' | 'alias';
   fullName?: String;
   userEmail?: String;
+  phone?: string; // Visible to admins and the user themself
+  addresses?: { street: string; code?: string; note?: string }[]; // Array of subdocuments
+  invitedBy?: Types.ObjectId | IUser; // Self reference for nested populate
   createdAt: Date;
   updatedAt: Date;
 }
@@ -41,6 +60,15 @@ const userSchema = new Schema<IUser>(
     tags: [String],
     isActive: { type: Boolean, default: true },
     score: { type: Number, default: 0 },
+    phone: { type: String, visibleTo: ['admin', 'self'] }, // Role-based visibility test
+    addresses: [
+      {
+        street: String,
+        code: { type: String, visibleTo: ['admin'] }, // Role-based visibility inside an array of subdocuments
+        note: { type: String, private: true },
+      },
+    ],
+    invitedBy: { type: Schema.Types.ObjectId, ref: 'TestUser' },
   },
   {
     timestamps: true,
@@ -55,4 +83,346 @@ userSchema.plugin(toJSONPlugin);
 // Export the Model, cast to PaginateModel for type checking in tests
 export const TestUserModel = mongoose.model<IUser>('TestUser', userSchema) as PaginateModel<IUser>;
 
+export interface IArticle extends Document {
+  title: string;
+  body: string;
+  author?: Types.ObjectId | IUser;
+  reviewers: (Types.ObjectId | IUser)[];
+  tags: string[];
+  views: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Second model with a text index and a ref to TestUser
+const articleSchema = new Schema<IArticle>(
+  {
+    title: { type: String, required: true },
+    body: { type: String, default: '' },
+    author: { type: Schema.Types.ObjectId, ref: 'TestUser' },
+    reviewers: [{ type: Schema.Types.ObjectId, ref: 'TestUser' }],
+    tags: [String],
+    views: { type: Number, default: 0 },
+  },
+  { timestamps: true },
+);
+
+articleSchema.index({ title: 'text', body: 'text' });
+
+articleSchema.plugin(paginate);
+articleSchema.plugin(toJSONPlugin, {
+  views: {
+    summary: { include: ['title', 'tags', 'author.name'], alias: { title: 'headline' } },
+    public: { exclude: ['views', 'reviewers'], includeTimeStamps: true },
+  },
+});
+
+export const TestArticleModel = mongoose.model<IArticle>('TestArticle', articleSchema) as PaginateModel<IArticle>;
+
+export interface ITask extends Document, SoftDeleteDocument {
+  title: string;
+  priority: number;
+}
+
+// Soft-deletable model
+const taskSchema = new Schema<ITask>(
+  {
+    title: { type: String, required: true },
+    priority: { type: Number, default: 0 },
+  },
+  { timestamps: true },
+);
+
+taskSchema.plugin(softDelete, { deletedByRef: 'TestUser' });
+taskSchema.plugin(paginate);
+taskSchema.plugin(toJSONPlugin);
+
+export const TestTaskModel = mongoose.model<ITask>('TestTask', taskSchema) as unknown as PaginateModel<
+  ITask,
+  SoftDeleteQueryHelpers
+> &
+  SoftDeleteStatics<ITask>;
+
+export interface IInvoice extends Document, AuditTrailMethods {
+  number: string;
+  amount: number;
+  status: string;
+  customer: { name: string; taxId?: string };
+}
+
+// Audited model
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    number: { type: String, required: true },
+    amount: { type: Number, required: true },
+    status: { type: String, default: 'draft' },
+    customer: {
+      name: { type: String },
+      taxId: { type: String, private: true },
+    },
+  },
+  { timestamps: true },
+);
+
+invoiceSchema.plugin(auditTrail);
+invoiceSchema.plugin(paginate);
+invoiceSchema.plugin(toJSONPlugin);
+
+export const TestInvoiceModel = mongoose.model<IInvoice>('TestInvoice', invoiceSchema) as unknown as PaginateModel<
+  IInvoice
+> &
+  AuditTrailStatics;
+
+export interface INote extends Document {
+  title: string;
+  pinned: boolean;
+}
+
+// Model with cached paginate results
+export const noteCache = createLRUCache({ max: 50 });
+
+const noteSchema = new Schema<INote>({
+  title: { type: String, required: true },
+  pinned: { type: Boolean, default: false },
+});
+
+noteSchema.plugin(paginate, { cache: noteCache, ttl: 30 });
+noteSchema.plugin(toJSONPlugin);
+
+export const TestNoteModel = mongoose.model<INote>('TestNote', noteSchema) as PaginateModel<INote>;
+
+export interface IEvent extends Document {
+  name: string;
+  kind: string;
+  priority: number;
+  startsAt: Date;
+}
+
+// Guarded model: sort allowlist, limits and index-aware sorting
+const eventSchema = new Schema<IEvent>({
+  name: { type: String, required: true },
+  kind: { type: String, required: true },
+  priority: { type: Number, default: 0 },
+  startsAt: { type: Date, required: true },
+});
+
+eventSchema.index({ kind: 1, startsAt: -1 });
+eventSchema.plugin(paginate, {
+  guard: {
+    allowedSortFields: ['startsAt', 'priority', 'name'],
+    maxLimit: 50,
+    allowFetchAll: false,
+    maxSkip: 100,
+    maxTimeMS: 5000,
+    strictIndexSort: true,
+  },
+});
+
+export const TestEventModel = mongoose.model<IEvent>('TestEvent', eventSchema) as PaginateModel<IEvent>;
+
+export interface IProject extends Document {
+  name: string;
+  budget: number;
+  tenantId: Types.ObjectId;
+  parent?: Types.ObjectId | IProject;
+}
+
+// Tenant-scoped and soft-deleted model, with cached paginate results kept per tenant
+const projectSchema = new Schema<IProject>({
+  name: { type: String, required: true },
+  budget: { type: Number, default: 0 },
+  parent: { type: Schema.Types.ObjectId, ref: 'TestProject' }, // Scoped ref for aggregation populate
+});
+
+projectSchema.plugin(softDelete);
+projectSchema.plugin(tenantScope);
+projectSchema.plugin(paginate, { cache: createLRUCache({ max: 50 }) });
+
+export const TestProjectModel = mongoose.model<IProject>('TestProject', projectSchema) as PaginateModel<IProject>;
+
+// Discriminator of the tenant-scoped model, paginated and cached through the base schema's plugins
+export const TestInternalProjectModel = TestProjectModel.discriminator<IProject>(
+  'TestInternalProject',
+  new Schema({ sponsor: String }),
+) as PaginateModel<IProject>;
+
+export interface ITicket extends Document {
+  title: string;
+  tenantId: Types.ObjectId;
+}
+
+// Tenant-scoped and audited model
+const ticketSchema = new Schema<ITicket>({ title: { type: String, required: true } });
+
+ticketSchema.plugin(tenantScope);
+ticketSchema.plugin(auditTrail);
+
+export const TestTicketModel = mongoose.model<ITicket>('TestTicket', ticketSchema) as unknown as Model<ITicket> &
+  AuditTrailStatics;
+
+export interface IOrder extends Document {
+  total: Types.Decimal128;
+  discount?: Types.Decimal128;
+  customer?: Types.ObjectId;
+  placedAt: Date;
+  shippedAt?: Date;
+  receipt?: Buffer;
+  items: { sku: string; price: Types.Decimal128; productId?: Types.ObjectId }[];
+}
+
+// Serializers by path (`serialize`) and by type (plugin options)
+const orderSchema = new Schema<IOrder>({
+  total: { type: Schema.Types.Decimal128, required: true, serialize: (value: Types.Decimal128) => Number(value) },
+  discount: { type: Schema.Types.Decimal128 },
+  customer: { type: Schema.Types.ObjectId, ref: 'TestUser' },
+  placedAt: { type: Date, required: true },
+  shippedAt: { type: Date, serialize: 'date:epoch' },
+  receipt: { type: Buffer, serialize: 'buffer:base64' },
+  items: [
+    {
+      sku: String,
+      price: Schema.Types.Decimal128,
+      productId: Schema.Types.ObjectId,
+    },
+  ],
+});
+
+orderSchema.plugin(toJSONPlugin, {
+  serializers: { Decimal128: 'decimal:string', Date: 'date:iso', ObjectId: 'objectId:string' },
+});
+
+export const TestOrderModel = mongoose.model<IOrder>('TestOrder', orderSchema);
+
+export interface IContact extends Document {
+  name: string;
+  rank: number;
+  address: { city: string; zip?: string };
+  email?: string;
+  phones: string[];
+  cards: { number: string; holder?: string }[];
+  pin?: string;
+  taxId?: string;
+}
+
+// Schema-level aliases declared through both plugins and merged: responses use them, and paginate accepts them
+const contactSchema = new Schema<IContact>(
+  {
+    name: { type: String, required: true },
+    rank: { type: Number, default: 0 },
+    address: {
+      city: String,
+      zip: String,
+    },
+    // Partly shown in responses
+    email: { type: String, mask: 'email' },
+    phones: [{ type: String, mask: 'phone', unmaskFor: ['support'] }],
+    cards: [{ number: { type: String, mask: 'last4' }, holder: String }],
+    pin: { type: String, mask: 'fixed' },
+    taxId: { type: String, mask: (value: string) => `${value.slice(0, 2)}-XXX` },
+  },
+  { timestamps: true },
+);
+
+contactSchema.plugin(paginate, { alias: 'name:fullName;rank:position' });
+contactSchema.plugin(toJSONPlugin, { alias: { 'address.city': 'city' } });
+
+export const TestContactModel = mongoose.model<IContact>('TestContact', contactSchema) as PaginateModel<
+  IContact,
+  {},
+  'fullName' | 'position' | 'city'
+>;
+
+export interface ICustomer extends Document {
+  name: string;
+  nationalId?: string;
+  taxId?: string;
+}
+
+// Keys of the customer model; tests switch the current key to rotate
+export const customerKeyring = {
+  currentKeyId: 'k1',
+  keys: { k1: randomBytes(32), k2: randomBytes(32) } as Record<string, Buffer>,
+  blindIndexKey: randomBytes(32),
+};
+
+// Encrypted at rest: nationalId can be looked up through its blind index, taxId cannot be queried
+const customerSchema = new Schema<ICustomer>({
+  name: { type: String, required: true },
+  nationalId: { type: String, match: /^\d{9}$/, encrypt: { blindIndex: true } },
+  taxId: { type: String, encrypt: true },
+});
+
+customerSchema.plugin(encryptedFields, {
+  keyProvider: {
+    getCurrentKeyId: () => customerKeyring.currentKeyId,
+    getKey: (keyId) => customerKeyring.keys[keyId],
+    getBlindIndexKey: () => customerKeyring.blindIndexKey,
+  },
+});
+customerSchema.plugin(paginate);
+customerSchema.plugin(toJSONPlugin);
+
+export const TestCustomerModel = mongoose.model<ICustomer>('TestCustomer', customerSchema) as unknown as PaginateModel<
+  ICustomer
+> &
+  EncryptedFieldsStatics;
+
+export interface IStore extends Document {
+  name: string;
+  open: boolean;
+  location: { type: 'Point'; coordinates: [number, number] };
+}
+
+// GeoJSON locations for nearest-first pagination (`near`)
+const storeSchema = new Schema<IStore>(
+  {
+    name: { type: String, required: true },
+    open: { type: Boolean, default: true },
+    location: {
+      type: { type: String, enum: ['Point'], default: 'Point' },
+      coordinates: { type: [Number], required: true },
+    },
+  },
+  { timestamps: true },
+);
+
+storeSchema.index({ location: '2dsphere' });
+storeSchema.plugin(paginate);
+storeSchema.plugin(toJSONPlugin, { views: { card: { include: ['name'] } } });
+
+export const TestStoreModel = mongoose.model<IStore>('TestStore', storeSchema) as PaginateModel<IStore>;
+
+export interface IBookmark extends Document {
+  title: string;
+  url: string;
+  rank: number;
+  owner?: Types.ObjectId | IUser;
+}
+
+// Paginate defaults set as plugin options, under a custom method name; no timestamps
+const bookmarkSchema = new Schema<IBookmark>({
+  title: { type: String, required: true },
+  url: { type: String, required: true },
+  rank: { type: Number, default: 0 },
+  owner: { type: Schema.Types.ObjectId, ref: 'TestUser' },
+});
+
+bookmarkSchema.plugin(paginate, {
+  methodName: 'findPaged',
+  defaultLimit: 2,
+  defaultSort: 'rank:desc',
+  defaultFields: 'title,rank,owner',
+  defaultPopulate: 'owner:name',
+  customLabels: { results: 'items' },
+  idField: 'key',
+  keepMongoId: true,
+});
+bookmarkSchema.plugin(toJSONPlugin);
+
+// With a custom methodName, the model is typed with the static under that name
+export const TestBookmarkModel = mongoose.model<IBookmark>('TestBookmark', bookmarkSchema) as Model<IBookmark> &
+  Pick<PaginateModel<IBookmark>, 'paginateCursor' | 'exportStream'> & {
+    findPaged: PaginateModel<IBookmark>['paginate'];
+  };
+
 export default TestUserModel;
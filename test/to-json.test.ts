@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { Schema, Types } from 'mongoose';
 import { connect, clearDatabase, close } from './test-utils';
-import { ToJSONOptions } from '../src';
-import { TestUserModel } from './test.model';
+import { ToJSONOptions, applyToJSON, toJSONPlugin } from '../src';
+import { TestArticleModel, TestContactModel, TestOrderModel, TestUserModel } from './test.model';
 
 // FIX: Increase Jest timeout to 30 seconds (30000ms) to allow MongoMemoryServer enough time to start
 jest.setTimeout(30000);
@@ -130,4 +131,165 @@ describe('ToJSON Plugin Tests', () => {
     expect(json.totalScore).toBe(99);
     expect(json.score).toBeUndefined();
   });
+
+  it('8. should hide visibleTo fields from callers without a matching role', async () => {
+    const userDoc = await TestUserModel.create({
+      ...userData,
+      phone: '555-0100',
+      addresses: [{ street: 'Main St', code: '1234', note: 'gate code' }],
+    });
+
+    const publicJson = userDoc.toJSON();
+    const adminJson = userDoc.toJSON({ role: 'admin' } as ToJSONOptions);
+    const staffJson = userDoc.toJSON({ roles: ['staff', 'admin'] } as ToJSONOptions);
+
+    expect(publicJson.phone).toBeUndefined();
+    expect(publicJson.addresses?.[0].street).toBe('Main St');
+    expect(publicJson.addresses?.[0].code).toBeUndefined();
+    expect(adminJson.phone).toBe('555-0100');
+    expect(adminJson.addresses?.[0].code).toBe('1234');
+    expect(staffJson.phone).toBe('555-0100');
+
+    // private: true stays hidden from everyone, at any depth
+    expect(adminJson.password).toBeUndefined();
+    expect(adminJson.addresses?.[0].note).toBeUndefined();
+  });
+
+  it('9. should grant the "self" role through the isSelf predicate', async () => {
+    const userDoc = await TestUserModel.create({
+      ...userData,
+      phone: '555-0100',
+      addresses: [{ street: 'Main St', code: '1234' }],
+    });
+    const otherId = userDoc._id.toString().replace(/.$/, (c: string) => (c === '0' ? '1' : '0'));
+
+    const selfOptions: ToJSONOptions = { isSelf: (doc) => doc._id.toString() === userDoc._id.toString() };
+    const otherOptions: ToJSONOptions = { isSelf: (doc) => doc._id.toString() === otherId };
+
+    expect(userDoc.toJSON(selfOptions).phone).toBe('555-0100');
+    expect(userDoc.toJSON(otherOptions).phone).toBeUndefined();
+    // "self" does not reveal admin-only fields
+    expect(userDoc.toJSON(selfOptions).addresses?.[0].code).toBeUndefined();
+  });
+
+  it('10. applyToJSON should apply the schema rules to lean objects', async () => {
+    const userDoc = await TestUserModel.create(userData);
+    const lean = await TestUserModel.findById(userDoc._id).lean();
+
+    const json = applyToJSON(TestUserModel.schema, lean!, { alias: { name: 'fullName' } });
+
+    expect(json.id).toBe(userDoc._id.toString());
+    expect(json._id).toBeUndefined();
+    expect(json.password).toBeUndefined();
+    expect(json.profile.age).toBeUndefined();
+    expect(json.createdAt).toBeUndefined();
+    expect(json.fullName).toBe('Test Alias');
+  });
+
+  it('11. should run path and type serializers at any depth, including arrays', async () => {
+    const productId = new Types.ObjectId();
+    const order = await TestOrderModel.create({
+      total: '19.90',
+      discount: '2.50',
+      placedAt: new Date('2024-05-01T10:00:00Z'),
+      shippedAt: new Date('2024-05-02T00:00:00Z'),
+      receipt: Buffer.from('paid'),
+      items: [{ sku: 'A-1', price: '9.95', productId }],
+    });
+
+    const json = order.toJSON() as Record<string, any>;
+
+    expect(json.total).toBe(19.9); // custom function, given a Decimal128
+    expect(json.discount).toBe('2.50'); // Decimal128 type default
+    expect(json.placedAt).toBe('2024-05-01T10:00:00.000Z');
+    expect(json.shippedAt).toBe(new Date('2024-05-02T00:00:00Z').getTime());
+    expect(json.receipt).toBe(Buffer.from('paid').toString('base64'));
+    expect(json.items[0]).toMatchObject({ sku: 'A-1', price: '9.95', productId: productId.toHexString() });
+    expect(typeof json.items[0]._id).toBe('string');
+  });
+
+  it('12. serializers should reach populated documents and be overridable per call', async () => {
+    const customer = await TestUserModel.create(userData);
+    const order = await TestOrderModel.create({ total: '5', customer: customer._id, placedAt: new Date(0) });
+
+    const lean = await TestOrderModel.findById(order._id).populate('customer').lean();
+    const json = applyToJSON(TestOrderModel.schema, lean!, { includeTimeStamps: true });
+    expect(json.customer._id).toBe(customer._id.toHexString());
+    expect(json.customer.createdAt).toBe(customer.get('createdAt').toISOString());
+
+    const overridden = order.toJSON({
+      serialize: { total: 'decimal:string', placedAt: 'date:epoch' },
+      serializers: { ObjectId: false },
+    } as ToJSONOptions);
+    expect(overridden.total).toBe('5');
+    expect(overridden.placedAt).toBe(0);
+    expect(overridden.customer).toBeInstanceOf(Types.ObjectId);
+
+    expect(() => order.toJSON({ serialize: { total: 'decimal:number' } } as any)).toThrow(
+      'toJSON: unknown serializer "decimal:number" for path "total".',
+    );
+  });
+
+  it('13. views should keep their paths, apply their alias and be overridable per call', async () => {
+    const author = await TestUserModel.create(userData);
+    await TestArticleModel.create({ title: 'Post', body: 'Long text', tags: ['news'], author: author._id });
+    const article = await TestArticleModel.findOne().populate('author');
+
+    const summary: ToJSONOptions = { view: 'summary' };
+    const relabeled: ToJSONOptions = { view: 'summary', alias: 'tags:labels' };
+    const unknown: ToJSONOptions = { view: 'detail' };
+
+    expect(article!.toJSON(summary)).toEqual({
+      id: article!._id.toString(),
+      headline: 'Post',
+      tags: ['news'],
+      author: { name: 'Test Alias' },
+    });
+    expect(article!.toJSON(relabeled)).toMatchObject({ title: 'Post', labels: ['news'] });
+    expect(() => article!.toJSON(unknown)).toThrow('toJSON: unknown view "detail".');
+  });
+
+  const contactData = {
+    name: 'Jane',
+    email: 'jane.doe@mail.com',
+    phones: ['+1 555 123 4567', '0612'],
+    cards: [{ number: '4111111111111111', holder: 'Jane' }],
+    pin: '1234',
+    taxId: 'DE123456',
+  };
+
+  it('14. should mask values at any depth and in arrays', async () => {
+    const contact = await TestContactModel.create(contactData);
+    const json = contact.toJSON() as Record<string, any>;
+
+    expect(json.email).toBe('j***@mail.com');
+    expect(json.phones).toEqual(['+1 5** *** **67', '********']);
+    expect(json.cards).toEqual([{ number: '************1111', holder: 'Jane', _id: expect.anything() }]);
+    expect(json.pin).toBe('********');
+    expect(json.taxId).toBe('DE-XXX');
+
+    // The same masks apply to plain objects
+    const lean = applyToJSON(TestContactModel.schema, (await TestContactModel.findById(contact._id).lean())!);
+    expect(lean.email).toBe('j***@mail.com');
+  });
+
+  it('15. unmask and unmaskFor should reveal masked values, and unknown masks should throw', async () => {
+    const contact = await TestContactModel.create(contactData);
+    const byPath: ToJSONOptions = { unmask: ['email', 'cards.number'] };
+    const all: ToJSONOptions = { unmask: true };
+    const support: ToJSONOptions = { role: 'support' };
+
+    const partly = contact.toJSON(byPath) as Record<string, any>;
+    expect(partly.email).toBe('jane.doe@mail.com');
+    expect(partly.cards[0].number).toBe('4111111111111111');
+    expect(partly.pin).toBe('********');
+
+    expect(contact.toJSON(all)).toMatchObject({ pin: '1234', taxId: 'DE123456' });
+    expect(contact.toJSON(support)).toMatchObject({ phones: contactData.phones, email: 'j***@mail.com' });
+
+    const schema = new Schema({ iban: { type: String, mask: 'first4' } });
+    expect(() => schema.plugin(toJSONPlugin)).toThrow(
+      'toJSON: unknown mask "first4" for path "iban". Expected a function or one of email, last4, phone, fixed.',
+    );
+  });
 });
@@ -0,0 +1,83 @@
+import { Types } from 'mongoose';
+import { QueryResult, SchemaPath } from '../src';
+import { IContact, IUser, TestContactModel, TestUserModel } from './test.model';
+
+// Compile-time assertions: ts-jest fails the suite when one of them does not type-check
+type Equals<A, B> = (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2 ? true : false;
+const expectType = <T extends true>(): T => true as T;
+
+type Row<P extends Promise<QueryResult<unknown>>> = Awaited<P>['results'][number];
+
+// Never called: the queries only exist to be type-checked
+const typedQueries = () => {
+  const projected = TestUserModel.paginate({}, { fields: 'name, score', alias: 'score:points' });
+  expectType<Equals<Row<typeof projected>, { name: string; points: number; id: string }>>();
+
+  const listed = TestUserModel.paginate({}, { fields: ['name', 'profile.city', 'addresses.street'] });
+  expectType<
+    Equals<
+      Row<typeof listed>,
+      { name: string; profile?: { city: string }; addresses?: { street: string }[]; id: string }
+    >
+  >();
+
+  const excluded = TestUserModel.paginate({}, { fields: '-password,-profile.age', alias: 'email:mail' });
+  expectType<Equals<Row<typeof excluded>['mail'], string>>();
+  expectType<Equals<Row<typeof excluded>['profile'], { city: string; location: string } | undefined>>();
+  expectType<Equals<'password' extends keyof Row<typeof excluded> ? true : false, false>>();
+  expectType<Equals<'_id' extends keyof Row<typeof excluded> ? true : false, false>>();
+  expectType<Equals<'email' extends keyof Row<typeof excluded> ? true : false, false>>();
+
+  // Wide options and no options keep the document type
+  const wide: { fields?: string } = { fields: 'name' };
+  const widened = TestUserModel.paginate({}, wide);
+  expectType<Equals<Row<typeof widened>, IUser>>();
+  const all = TestUserModel.paginate();
+  expectType<Equals<Row<typeof all>, IUser>>();
+
+  // The aggregation path takes the row type from the caller
+  const aggregated = TestUserModel.paginate<{ city: string; total: number }>(
+    {},
+    { aggregation: [{ $group: { _id: '$profile.city', total: { $sum: 1 } } }] },
+  );
+  expectType<Equals<Row<typeof aggregated>, { city: string; total: number }>>();
+
+  // Without the toJSON rules the id keeps its ObjectId type
+  const raw = TestUserModel.paginate({}, { fields: 'name', toJSON: false });
+  expectType<Equals<Row<typeof raw>, { name: string; id: Types.ObjectId }>>();
+
+  const labeled = TestUserModel.paginate({}, { fields: 'email', customLabels: { results: 'docs' } });
+  expectType<Equals<Awaited<typeof labeled>['docs'], { email: string; id: string }[]>>();
+
+  TestUserModel.paginate({}, { sortBy: 'profile.city:asc,score:desc,createdAt' });
+  // @ts-expect-error unknown sortBy path
+  TestUserModel.paginate({}, { sortBy: 'score:desc,nmae:asc' });
+  // @ts-expect-error unknown fields path
+  TestUserModel.paginate({}, { fields: 'name,emial' });
+  // @ts-expect-error unknown path in the array form
+  TestUserModel.paginate({}, { fields: ['name', 'profile.zip'] });
+  // Fields computed by the pipeline can be sorted on
+  TestUserModel.paginate({}, { aggregation: [{ $addFields: { double: 1 } }], sortBy: 'double:desc' });
+
+  // Schema-level aliases named on the model type are accepted; their rows keep the document type
+  const aliased = TestContactModel.paginate({}, { sortBy: 'position:desc,name', fields: 'fullName,city' });
+  expectType<Equals<Row<typeof aliased>, IContact>>();
+  // @ts-expect-error unknown alias
+  TestContactModel.paginate({}, { sortBy: 'rnak:desc' });
+};
+
+describe('Paginate Type Tests', () => {
+  it('1. should infer rows from literal fields, alias and customLabels', () => {
+    expect(typeof typedQueries).toBe('function');
+  });
+
+  it('2. SchemaPath should list nested and subdocument array paths and stop at refs', () => {
+    const paths: SchemaPath<IUser>[] = ['name', 'profile.age', 'addresses.code', 'invitedBy', 'tags', '_id'];
+    // @ts-expect-error refs are leaves, populated paths are not selectable
+    const refPath: SchemaPath<IUser> = 'invitedBy.name';
+
+    expectType<Equals<Extract<SchemaPath<{ _id: Types.ObjectId; when: Date }>, string>, '_id' | 'when'>>();
+    expect(paths).toHaveLength(6);
+    expect(refPath).toBe('invitedBy.name');
+  });
+});